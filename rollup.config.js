@@ -10,6 +10,21 @@ import typescriptPlugin from 'rollup-plugin-typescript2';
 
 import pkg from './package.json';
 
+const bundledDependencyPlugins = [
+  nodeResolvePlugin({
+    module: true,
+    jsnext: true,
+    main: false,
+    browser: true,
+    preferBuiltins: false,
+  }),
+  commonjsPlugin({
+    namedExports: {
+      'node_modules/upng-js/UPNG.js': ['decode', 'toRGBA8'],
+    },
+  }),
+];
+
 const commonPlugins = [
   glslifyPlugin(),
   postcssPlugin({
@@ -44,6 +59,27 @@ export default [
     ],
     plugins: commonPlugins,
   },
+  // GeoTIFF tile source, in its own bundles so that only its users need the `geotiff` package.
+  {
+    input: 'src/GeoTIFFSource.ts',
+    output: [
+      {
+        file: 'dist/geotiff.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/geotiff.es.js',
+        format: 'es',
+        sourcemap: true,
+      },
+    ],
+    external: [
+      ...Object.keys(pkg.dependencies || {}),
+      ...Object.keys(pkg.peerDependencies || {}),
+    ],
+    plugins: commonPlugins,
+  },
   // IIFE bundle, for use in a <script> tag. Dependencies other than Leaflet are bundled too.
   {
     input: 'src/index.ts',
@@ -56,18 +92,23 @@ export default [
     },
     external: [...Object.keys(pkg.peerDependencies || {})],
     plugins: [
-      nodeResolvePlugin({
-        module: true,
-        jsnext: true,
-        main: false,
-        browser: true,
-        preferBuiltins: false,
-      }),
-      commonjsPlugin({
-        namedExports: {
-          'node_modules/upng-js/UPNG.js': ['decode'],
-        },
+      ...bundledDependencyPlugins,
+      ...commonPlugins,
+      minify({
+        comments: false,
       }),
+    ],
+  },
+  // Web Worker script, for fetching and decoding tiles off the main thread (see `Options.workerUrl`).
+  {
+    input: 'src/worker.ts',
+    output: {
+      file: 'dist/worker.js',
+      format: 'iife',
+      sourcemap: true,
+    },
+    plugins: [
+      ...bundledDependencyPlugins,
       ...commonPlugins,
       minify({
         comments: false,
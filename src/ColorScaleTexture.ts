@@ -0,0 +1,227 @@
+import { sortBy } from 'lodash-es';
+import REGL from 'regl';
+
+import {
+  COLOR_SCALE_MODE_CONTINUOUS,
+  COLOR_SCALE_MODE_QUANTIZE,
+  COLOR_SCALE_MODE_STEPPED,
+  COLOR_SCALE_MODE_THRESHOLD,
+  COLOR_SCALE_ROW,
+  INTERPOLATION_HCL,
+  INTERPOLATION_LAB,
+  INTERPOLATION_OKLAB,
+  INTERPOLATION_RGB,
+  SCALE_TEXTURE_ROWS,
+  SCALE_TYPE_LINEAR,
+  SCALE_TYPE_LOG,
+  SCALE_TYPE_POW,
+  SCALE_TYPE_SYMLOG,
+  SENTINEL_VALUES_ROW,
+  VALUE_FILTER_ROW,
+} from './constants';
+import {
+  Color,
+  ColorScaleSettings,
+  SentinelValue,
+  ValueFilter,
+  ValueRange,
+  WebGLColorStop,
+} from './types';
+import * as util from './util';
+
+const BYTES_PER_TEXEL = 4;
+
+const defaultSettings: ColorScaleSettings = {
+  colorScale: [],
+  sentinelValues: [],
+  valueFilter: [],
+  colorScaleMode: 'continuous',
+  scaleType: 'linear',
+  scaleExponent: 1,
+  interpolation: 'rgb',
+};
+
+/**
+ * Encodes a color scale and a set of sentinel values in a lookup texture, so that the fragment
+ * shaders can find the stop(s) for a pixel value with a binary search instead of scanning a
+ * fixed-length uniform array.
+ *
+ * Each stop occupies one column of the texture. For each scale there's one row holding the stop
+ * colors (as 8-bit RGBA) and a second row holding the offsets (as little-endian 32-bit floats
+ * packed into the RGBA channels). For sentinel values, the second row holds the lower bounds of
+ * the ranges of values they match and a third row holds the upper bounds; they are sorted by lower
+ * bound before being uploaded.
+ *
+ * The ranges of the value filter also occupy one column each, in three rows: flags (red: has a
+ * lower bound; green: has an upper bound; blue: the bounds are inclusive), then the lower bounds
+ * and the upper bounds (as little-endian 32-bit floats).
+ *
+ * The remaining settings (color scale mode, scale type and exponent, and interpolation color
+ * space) are exposed as properties, to be passed to the shaders as uniforms alongside the texture.
+ */
+export default class ColorScaleTexture {
+  // the Regl Texture2D object
+  readonly texture: REGL.Texture2D;
+  // number of stops in the color scale
+  colorScaleLength: number;
+  // number of sentinel values
+  sentinelValuesLength: number;
+  // number of value filter ranges
+  valueFilterLength: number;
+  // code identifying the color scale mode in the shaders
+  colorScaleMode: number;
+  // code identifying the scale type in the shaders
+  scaleType: number;
+  // exponent applied by power scales
+  scaleExponent: number;
+  // code identifying the interpolation color space in the shaders
+  interpolation: number;
+
+  // the arrays most recently uploaded, used to skip redundant uploads
+  protected colorScale?: Color[];
+  protected sentinelValues?: SentinelValue[];
+  protected valueFilter?: ValueFilter;
+  // the widest texture the WebGL context supports
+  protected maxWidth: number;
+
+  constructor(regl: REGL.Regl, settings: ColorScaleSettings = defaultSettings) {
+    const texture = regl.texture({
+      width: 1,
+      height: SCALE_TEXTURE_ROWS,
+      format: 'rgba',
+      type: 'uint8',
+      min: 'nearest',
+      mag: 'nearest',
+    });
+
+    Object.assign(this, {
+      texture,
+      maxWidth: regl.limits.maxTextureSize,
+      colorScaleLength: 0,
+      sentinelValuesLength: 0,
+      valueFilterLength: 0,
+      colorScaleMode: COLOR_SCALE_MODE_CONTINUOUS,
+      scaleType: SCALE_TYPE_LINEAR,
+      scaleExponent: 1,
+      interpolation: INTERPOLATION_RGB,
+    });
+
+    this.update(settings);
+  }
+
+  update({
+    colorScale,
+    sentinelValues,
+    valueFilter,
+    colorScaleMode,
+    scaleType,
+    scaleExponent,
+    interpolation,
+  }: ColorScaleSettings) {
+    Object.assign(this, {
+      colorScaleMode: {
+        continuous: COLOR_SCALE_MODE_CONTINUOUS,
+        threshold: COLOR_SCALE_MODE_THRESHOLD,
+        quantize: COLOR_SCALE_MODE_QUANTIZE,
+        stepped: COLOR_SCALE_MODE_STEPPED,
+      }[colorScaleMode],
+      // A square root scale is just a power scale with exponent 0.5.
+      scaleType: {
+        linear: SCALE_TYPE_LINEAR,
+        log: SCALE_TYPE_LOG,
+        symlog: SCALE_TYPE_SYMLOG,
+        sqrt: SCALE_TYPE_POW,
+        pow: SCALE_TYPE_POW,
+      }[scaleType],
+      scaleExponent: scaleType === 'sqrt' ? 0.5 : scaleExponent,
+      interpolation: {
+        rgb: INTERPOLATION_RGB,
+        lab: INTERPOLATION_LAB,
+        oklab: INTERPOLATION_OKLAB,
+        hcl: INTERPOLATION_HCL,
+      }[interpolation],
+    });
+
+    if (
+      colorScale === this.colorScale
+      && sentinelValues === this.sentinelValues
+      && valueFilter === this.valueFilter
+    ) {
+      return;
+    }
+
+    const webGLColorScale = util.convertColorScale(colorScale);
+    const webGLSentinelValues = sortBy(sentinelValues.map((sentinelValue) => {
+      const [lower, upper] = util.sentinelValueRange(sentinelValue);
+      return { color: util.colorStringToWebGLFloats(sentinelValue.color), offset: lower, upper };
+    }), 'offset');
+    const valueRanges = util.valueFilterRanges(valueFilter);
+
+    const width = Math.max(webGLColorScale.length, webGLSentinelValues.length, valueRanges.length, 1);
+    if (width > this.maxWidth) {
+      // Each stop, sentinel value or value filter range takes a column of the texture, so the longest
+      // of them can't be longer than the widest texture the device supports.
+      throw new Error(
+        `Length ${width} exceeds this device's maximum texture size, ${this.maxWidth}.`,
+      );
+    }
+    const data = new Uint8Array(width * SCALE_TEXTURE_ROWS * BYTES_PER_TEXEL);
+    this.writeStops(data, width, COLOR_SCALE_ROW, webGLColorScale);
+    this.writeStops(data, width, SENTINEL_VALUES_ROW, webGLSentinelValues);
+    this.writeFloats(data, width, SENTINEL_VALUES_ROW + 2, webGLSentinelValues.map(({ upper }) => upper));
+    this.writeValueRanges(data, width, VALUE_FILTER_ROW, valueRanges);
+
+    this.texture({
+      data,
+      width,
+      height: SCALE_TEXTURE_ROWS,
+      format: 'rgba',
+      type: 'uint8',
+      min: 'nearest',
+      mag: 'nearest',
+    });
+
+    Object.assign(this, {
+      colorScale,
+      sentinelValues,
+      valueFilter,
+      colorScaleLength: webGLColorScale.length,
+      sentinelValuesLength: webGLSentinelValues.length,
+      valueFilterLength: valueRanges.length,
+    });
+  }
+
+  destroy() {
+    this.texture.destroy();
+  }
+
+  protected writeStops(data: Uint8Array, width: number, row: number, stops: WebGLColorStop[]) {
+    const dataView = new DataView(data.buffer);
+    stops.forEach(({ color, offset }, index) => {
+      const colorByteIndex = (row * width + index) * BYTES_PER_TEXEL;
+      const offsetByteIndex = ((row + 1) * width + index) * BYTES_PER_TEXEL;
+      data.set(color.map(channel => Math.round(channel * 255)), colorByteIndex);
+      // The shaders decode offsets as little-endian regardless of the machine's byte order.
+      dataView.setFloat32(offsetByteIndex, offset, true);
+    });
+  }
+
+  protected writeFloats(data: Uint8Array, width: number, row: number, values: number[]) {
+    const dataView = new DataView(data.buffer);
+    values.forEach((value, index) => {
+      dataView.setFloat32((row * width + index) * BYTES_PER_TEXEL, value, true);
+    });
+  }
+
+  protected writeValueRanges(data: Uint8Array, width: number, row: number, ranges: ValueRange[]) {
+    const dataView = new DataView(data.buffer);
+    ranges.forEach(({ min, max, inclusive = true }, index) => {
+      const flagsByteIndex = (row * width + index) * BYTES_PER_TEXEL;
+      const minByteIndex = ((row + 1) * width + index) * BYTES_PER_TEXEL;
+      const maxByteIndex = ((row + 2) * width + index) * BYTES_PER_TEXEL;
+      data.set([min === undefined ? 0 : 255, max === undefined ? 0 : 255, inclusive ? 255 : 0, 255], flagsByteIndex);
+      dataView.setFloat32(minByteIndex, min === undefined ? 0 : min, true);
+      dataView.setFloat32(maxByteIndex, max === undefined ? 0 : max, true);
+    });
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  fromArrayBuffer,
+  fromUrl,
+  GeoTIFF,
+  GeoTIFFImage,
+} from 'geotiff';
+
+import { EARTH_RADIUS } from './constants';
+import {
+  Pair,
+  TileCoordinates,
+  TileSourceObject,
+} from './types';
+import * as util from './util';
+
+export interface GeoTIFFSourceOptions {
+  // size of the tiles produced, in pixels (must match the layer's `tileSize`)
+  tileSize?: number;
+  // index of the band to read
+  band?: number;
+  // value of pixels without data (those outside the file's extent); defaults to the file's GDAL nodata value
+  nodataValue?: number;
+}
+
+// the coordinate reference systems that GeoTIFF files may use
+export type GeoTIFFCRS = 'EPSG:3857' | 'EPSG:4326';
+
+// the geo keys of a GeoTIFF file that determine its coordinate reference system
+interface GeoKeys {
+  GTModelTypeGeoKey?: number;
+  ProjectedCSTypeGeoKey?: number;
+  GeographicTypeGeoKey?: number;
+}
+
+interface Overview {
+  image: GeoTIFFImage;
+  width: number;
+  height: number;
+  // size of a pixel, in the units of the file's coordinate reference system
+  resolution: Pair<number>;
+}
+
+// the maximum of Web Mercator's x and y coordinates, in meters
+const MERCATOR_EXTENT = Math.PI * EARTH_RADIUS;
+
+// EPSG codes that GeoTIFF files use for Web Mercator
+const WEB_MERCATOR_CODES = [3857, 3785, 900913, 102100, 102113];
+const WGS84_CODE = 4326;
+// GeoTIFF's value of GTModelTypeGeoKey for geographic (latitude-longitude) coordinates
+const MODEL_TYPE_GEOGRAPHIC = 2;
+// bit of a TIFF image's NewSubfileType marking it as a transparency mask
+const SUBFILE_TYPE_MASK = 4;
+
+/**
+ * A tile source reading a single band of a GeoTIFF file, either in memory or over HTTP. Cloud-
+ * Optimized GeoTIFFs are read with range requests, so only the parts of the file needed for the
+ * visible tiles are fetched.
+ *
+ * For each tile, the overview with the coarsest resolution that's at least as fine as the tile's
+ * is read, and resampled (by nearest neighbor) into a Web Mercator tile. The file must use either
+ * Web Mercator (EPSG:3857) or latitude and longitude (EPSG:4326) coordinates.
+ *
+ * Open a file with `GeoTIFFSource.open`. The source's `nodataValue` is used as the layer's
+ * `nodataValue`, unless the layer is given one of its own.
+ */
+export default class GeoTIFFSource implements TileSourceObject {
+  /**
+   * Read the metadata of a GeoTIFF file at the given URL, or in the given buffer, and create a tile
+   * source for it.
+   */
+  static async open(input: string | ArrayBuffer, options: GeoTIFFSourceOptions = {}): Promise<GeoTIFFSource> {
+    const tiff: GeoTIFF = typeof input === 'string' ? await fromUrl(input) : await fromArrayBuffer(input);
+    const imageCount = await tiff.getImageCount();
+    const images = await Promise.all(util.range(imageCount).map((index) => tiff.getImage(index)));
+    return new GeoTIFFSource(
+      // Skip transparency masks.
+      images.filter((image) => !isMask(image)),
+      options,
+    );
+  }
+
+  readonly crs: GeoTIFFCRS;
+  readonly nodataValue: number;
+  readonly tileSize: number;
+  readonly band: number;
+
+  // coordinates of the top left corner of the file's extent
+  protected _origin: Pair<number>;
+  // the full-resolution image and its overviews, from finest to coarsest resolution
+  protected _overviews: Overview[];
+
+  constructor(
+    images: GeoTIFFImage[],
+    {
+      tileSize = 256,
+      band = 0,
+      nodataValue,
+    }: GeoTIFFSourceOptions = {},
+  ) {
+    const [fullImage] = images;
+    if (!fullImage) {
+      throw new Error('GeoTIFF has no images.');
+    }
+    if (band < 0 || band >= fullImage.getSamplesPerPixel()) {
+      throw new Error(`GeoTIFF has no band ${band}.`);
+    }
+    const gdalNodataValue = fullImage.getGDALNoData();
+    if (nodataValue === undefined && gdalNodataValue === null) {
+      throw new Error('GeoTIFF has no nodata value, so one must be given.');
+    }
+    const [originX, originY] = fullImage.getOrigin();
+    const overviews = images.map((image) => {
+      // Overviews may lack their own geotransforms, so take their resolutions relative to the full image.
+      const [resolutionX, resolutionY] = image.getResolution(fullImage);
+      return {
+        image,
+        width: image.getWidth(),
+        height: image.getHeight(),
+        resolution: [Math.abs(resolutionX), Math.abs(resolutionY)] as Pair<number>,
+      };
+    });
+    Object.assign(this, {
+      crs: getCRS(fullImage.getGeoKeys() as GeoKeys | null),
+      // Round to 32 bits, so that the value matches the pixels' values exactly.
+      nodataValue: Math.fround(nodataValue === undefined ? gdalNodataValue as number : nodataValue),
+      tileSize,
+      band,
+      _origin: [originX, originY],
+      _overviews: overviews.sort((a, b) => a.resolution[0] - b.resolution[0]),
+    });
+  }
+
+  /**
+   * Produce a Web Mercator tile from the overview best matching its zoom level.
+   */
+  async getTile({ x, y, z }: TileCoordinates, signal: AbortSignal): Promise<Float32Array> {
+    const { tileSize, nodataValue } = this;
+    const output = new Float32Array(tileSize * tileSize).fill(nodataValue);
+
+    // Find the Web Mercator coordinates of the centers of the tile's columns and rows, and convert
+    // them to the file's coordinates. (Both supported systems have axes aligned with Web Mercator's,
+    // so each column has one x coordinate and each row one y coordinate.)
+    const tileExtent = 2 * MERCATOR_EXTENT / Math.pow(2, z);
+    const pixelExtent = tileExtent / tileSize;
+    const left = -MERCATOR_EXTENT + x * tileExtent;
+    const top = MERCATOR_EXTENT - y * tileExtent;
+    const xs = util.range(tileSize).map((column) => this._toSourceX(left + (column + 0.5) * pixelExtent));
+    const ys = util.range(tileSize).map((row) => this._toSourceY(top - (row + 0.5) * pixelExtent));
+
+    // Map each column and row to one in the overview, or -1 if it's outside the file's extent.
+    const overview = this._chooseOverview((xs[tileSize - 1] - xs[0]) / Math.max(tileSize - 1, 1));
+    const [originX, originY] = this._origin;
+    const [resolutionX, resolutionY] = overview.resolution;
+    const toIndex = (value: number, length: number) => {
+      const index = Math.floor(value);
+      return index >= 0 && index < length ? index : -1;
+    };
+    const columns = xs.map((sourceX) => toIndex((sourceX - originX) / resolutionX, overview.width));
+    const rows = ys.map((sourceY) => toIndex((originY - sourceY) / resolutionY, overview.height));
+    const validColumns = columns.filter((column) => column >= 0);
+    const validRows = rows.filter((row) => row >= 0);
+    if (validColumns.length === 0 || validRows.length === 0) {
+      return output;
+    }
+
+    // Read the window of the overview covering the tile.
+    const windowLeft = Math.min(...validColumns);
+    const windowTop = Math.min(...validRows);
+    const windowWidth = Math.max(...validColumns) - windowLeft + 1;
+    const windowHeight = Math.max(...validRows) - windowTop + 1;
+    const raster = await overview.image.readRasters({
+      window: [windowLeft, windowTop, windowLeft + windowWidth, windowTop + windowHeight],
+      samples: [this.band],
+      interleave: true,
+      signal,
+    }) as ArrayLike<number>;
+
+    rows.forEach((row, tileRow) => {
+      if (row < 0) {
+        return;
+      }
+      const rowOffset = (row - windowTop) * windowWidth - windowLeft;
+      columns.forEach((column, tileColumn) => {
+        if (column >= 0) {
+          output[tileRow * tileSize + tileColumn] = raster[rowOffset + column];
+        }
+      });
+    });
+    return output;
+  }
+
+  /**
+   * The coarsest overview whose resolution is at least as fine as the given resolution, or the
+   * finest overview if none is fine enough.
+   */
+  protected _chooseOverview(resolution: number): Overview {
+    // Allow for rounding error in the overviews' resolutions.
+    const candidates = this._overviews.filter((overview) => overview.resolution[0] <= resolution * 1.001);
+    return candidates.length > 0 ? candidates[candidates.length - 1] : this._overviews[0];
+  }
+
+  protected _toSourceX(mercatorX: number): number {
+    return this.crs === 'EPSG:3857' ? mercatorX : mercatorX / EARTH_RADIUS * 180 / Math.PI;
+  }
+
+  protected _toSourceY(mercatorY: number): number {
+    return (
+      this.crs === 'EPSG:3857'
+      ? mercatorY
+      : Math.atan(Math.sinh(mercatorY / EARTH_RADIUS)) * 180 / Math.PI
+    );
+  }
+}
+
+/**
+ * Whether a TIFF image is a transparency mask, per the mask bit of its NewSubfileType.
+ */
+function isMask(image: GeoTIFFImage): boolean {
+  const subfileType = Number(image.fileDirectory.NewSubfileType) || 0;
+  return Math.floor(subfileType / SUBFILE_TYPE_MASK) % 2 === 1;
+}
+
+/**
+ * Determine a GeoTIFF file's coordinate reference system from its geo keys.
+ */
+function getCRS(geoKeys: GeoKeys | null): GeoTIFFCRS {
+  const {
+    GTModelTypeGeoKey: modelType,
+    ProjectedCSTypeGeoKey: projectedCode,
+    GeographicTypeGeoKey: geographicCode,
+  } = geoKeys || {} as GeoKeys;
+  if (projectedCode !== undefined && WEB_MERCATOR_CODES.indexOf(projectedCode) !== -1) {
+    return 'EPSG:3857';
+  }
+  if (projectedCode === undefined && (geographicCode === WGS84_CODE || modelType === MODEL_TYPE_GEOGRAPHIC)) {
+    return 'EPSG:4326';
+  }
+  throw new Error('GeoTIFF must use Web Mercator (EPSG:3857) or latitude and longitude (EPSG:4326) coordinates.');
+}
@@ -0,0 +1,252 @@
+import * as L from 'leaflet';
+
+import GLColorScale from './index';
+import {
+  Color,
+  ColorScaleSettings,
+  Pair,
+} from './types';
+import * as util from './util';
+
+export type LegendOrientation = 'horizontal' | 'vertical';
+
+export interface LegendOptions extends L.ControlOptions {
+  // the layer whose color scale and sentinel values are shown
+  layer: GLColorScale;
+  orientation?: LegendOrientation;
+  title?: string;
+  // length of the gradient bar, in pixels
+  barLength?: number;
+  // formats the values shown as tick labels and class ranges
+  formatter?: (value: number) => string;
+}
+
+const defaultOptions = {
+  position: 'bottomright' as L.ControlPosition,
+  orientation: 'horizontal' as LegendOrientation,
+  barLength: 200,
+  formatter: (value: number) => String(value),
+};
+
+type InternalLegendOptions = LegendOptions & typeof defaultOptions;
+
+/**
+ * A Leaflet control showing a legend for a GLColorScale layer: a gradient bar with ticks for a
+ * continuous color scale, a list of swatches for a classed color scale, and a list of swatches for
+ * sentinel values. The legend re-renders whenever the layer's color scale changes.
+ *
+ * The gradient bar is colorized on the CPU by `util.computeContinuousColor`, which mirrors the
+ * layer's shaders, so it matches the map for any scale type or interpolation color space.
+ */
+export default class Legend extends L.Control {
+  options: InternalLegendOptions;
+
+  constructor(options: LegendOptions) {
+    super(Object.assign({}, defaultOptions, options));
+  }
+
+  onAdd() {
+    const { layer, orientation } = this.options;
+    const container = L.DomUtil.create(
+      'div',
+      `gl-tilelayer-legend gl-tilelayer-legend-${orientation}`,
+    );
+    L.DomEvent.disableClickPropagation(container);
+    layer.on('colorscalechange', this._update, this);
+    this._render(container);
+    return container;
+  }
+
+  onRemove() {
+    this.options.layer.off('colorscalechange', this._update, this);
+  }
+
+  /**
+   * Handler for the layer's 'colorscalechange' event.
+   */
+  protected _update() {
+    const container = this.getContainer();
+    if (container) {
+      this._render(container);
+    }
+  }
+
+  /**
+   * Render the contents of the legend from the layer's current options.
+   */
+  protected _render(container: HTMLElement) {
+    const {
+      colorScale,
+      sentinelValues,
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
+      interpolation,
+    } = this.options.layer.options;
+    const settings: ColorScaleSettings = {
+      colorScale,
+      // Sentinel values are shown as swatches, not in the gradient.
+      sentinelValues: [],
+      valueFilter: [],
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
+      interpolation,
+    };
+
+    container.innerHTML = '';
+    const { title } = this.options;
+    if (title) {
+      L.DomUtil.create('div', 'gl-tilelayer-legend-title', container).textContent = title;
+    }
+    if (colorScale.length > 0) {
+      if (colorScaleMode === 'continuous') {
+        this._renderGradient(container, settings);
+      } else {
+        this._renderSwatches(container, colorScale, this._formatClassRanges(settings));
+      }
+    }
+    if (sentinelValues.length > 0) {
+      this._renderSwatches(container, sentinelValues, sentinelValues.map(({ label }) => label));
+    }
+  }
+
+  /**
+   * Render a gradient bar with a tick for each color stop (or, if any stops have labels, for each
+   * labeled stop). The bar's axis follows the scale type, so a log scale has log-spaced ticks.
+   */
+  protected _renderGradient(container: HTMLElement, settings: ColorScaleSettings) {
+    const {
+      barLength,
+      formatter,
+      orientation,
+    } = this.options;
+    const {
+      colorScale,
+      scaleType,
+      scaleExponent,
+    } = settings;
+    const [scaledMin, scaledMax] = this._scaledDomain(settings);
+
+    const bar = L.DomUtil.create('div', 'gl-tilelayer-legend-bar', container);
+    const canvas = L.DomUtil.create('canvas', 'gl-tilelayer-legend-gradient', bar) as HTMLCanvasElement;
+    const horizontal = orientation === 'horizontal';
+    Object.assign(canvas, {
+      width: horizontal ? barLength : 1,
+      height: horizontal ? 1 : barLength,
+    });
+    Object.assign(canvas.style, horizontal ? { width: `${barLength}px` } : { height: `${barLength}px` });
+    const context = canvas.getContext('2d');
+    if (context === null) {
+      throw new Error('Legend canvas 2D context is null.');
+    }
+
+    // Color values spanning the color scale, evenly spaced along the bar. A vertical bar has its
+    // maximum at the top.
+    const image = context.createImageData(canvas.width, canvas.height);
+    for (let index = 0; index < barLength; ++index) {
+      const value = util.unscaleValue(
+        scaledMin + (scaledMax - scaledMin) * (index + 0.5) / barLength,
+        scaleType,
+        scaleExponent,
+      );
+      const color = util.computeContinuousColor(value, settings);
+      const pixel = horizontal ? index : barLength - 1 - index;
+      image.data.set(color.map(channel => Math.round(channel * 255)), pixel * 4);
+    }
+    context.putImageData(image, 0, 0);
+
+    // Add ticks.
+    const ticks = L.DomUtil.create('div', 'gl-tilelayer-legend-ticks', bar);
+    Object.assign(ticks.style, horizontal ? { width: `${barLength}px` } : { height: `${barLength}px` });
+    const anyLabeled = colorScale.some(({ label }) => label !== undefined);
+    for (const { label, offset } of colorScale) {
+      if (anyLabeled && label === undefined) {
+        continue;
+      }
+      const fraction = (
+        scaledMax === scaledMin
+        ? 0.5
+        : (util.scaleValue(offset, scaleType, scaleExponent) - scaledMin) / (scaledMax - scaledMin)
+      );
+      const tick = L.DomUtil.create('div', 'gl-tilelayer-legend-tick', ticks);
+      tick.textContent = label === undefined ? formatter(offset) : label;
+      tick.style[horizontal ? 'left' : 'bottom'] = `${fraction * 100}%`;
+    }
+  }
+
+  /**
+   * Render a list of swatches with labels.
+   */
+  protected _renderSwatches(container: HTMLElement, stops: Array<Pick<Color, 'color'>>, labels: string[]) {
+    const list = L.DomUtil.create('ul', 'gl-tilelayer-legend-swatches', container);
+    stops.forEach(({ color }, index) => {
+      const item = L.DomUtil.create('li', 'gl-tilelayer-legend-swatch', list);
+      L.DomUtil.create('span', 'gl-tilelayer-legend-swatch-color', item).style.backgroundColor = color;
+      L.DomUtil.create('span', 'gl-tilelayer-legend-swatch-label', item).textContent = labels[index];
+    });
+  }
+
+  /**
+   * Describe the range of values in each class of a classed color scale. Stops with a label use it.
+   */
+  protected _formatClassRanges(settings: ColorScaleSettings): string[] {
+    const { formatter } = this.options;
+    const {
+      colorScale,
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
+    } = settings;
+    const lastIndex = colorScale.length - 1;
+    const offsets = colorScale.map(({ offset }) => offset);
+    const range = ([lower, upper]: Pair<number>) => `${formatter(lower)} – ${formatter(upper)}`;
+
+    return colorScale.map(({ label }, index) => {
+      if (label !== undefined) {
+        return label;
+      }
+      if (lastIndex === 0) {
+        return 'all values';
+      }
+      if (colorScaleMode === 'threshold') {
+        // Each class runs from the previous offset (exclusive) to its own offset (inclusive).
+        return (
+          index === 0 ? `≤ ${formatter(offsets[0])}`
+          : index === lastIndex ? `> ${formatter(offsets[index - 1])}`
+          : range([offsets[index - 1], offsets[index]])
+        );
+      }
+      if (colorScaleMode === 'stepped') {
+        // Each class runs from its own offset (inclusive) to the next offset (exclusive).
+        return (
+          index === 0 ? `< ${formatter(offsets[1])}`
+          : index === lastIndex ? `≥ ${formatter(offsets[index])}`
+          : range([offsets[index], offsets[index + 1]])
+        );
+      }
+      // 'quantize': equal intervals between the first and last offsets, after scaling.
+      const [scaledMin, scaledMax] = this._scaledDomain(settings);
+      const bound = (i: number) => util.unscaleValue(
+        scaledMin + (scaledMax - scaledMin) * i / colorScale.length,
+        scaleType,
+        scaleExponent,
+      );
+      return (
+        index === 0 ? `< ${formatter(bound(1))}`
+        : index === lastIndex ? `≥ ${formatter(bound(index))}`
+        : range([bound(index), bound(index + 1)])
+      );
+    });
+  }
+
+  /**
+   * The first and last offsets of the color scale, transformed according to the scale type.
+   */
+  protected _scaledDomain({ colorScale, scaleType, scaleExponent }: ColorScaleSettings): Pair<number> {
+    return [
+      util.scaleValue(colorScale[0].offset, scaleType, scaleExponent),
+      util.scaleValue(colorScale[colorScale.length - 1].offset, scaleType, scaleExponent),
+    ];
+  }
+}
@@ -0,0 +1,169 @@
+import { PersistentCacheOptions } from './types';
+
+// record of a tile in the 'entries' store, which is kept small so that it can be scanned for eviction
+interface CacheEntry {
+  url: string;
+  // size of the tile's data, in bytes
+  size: number;
+  // time of the tile's last use, in milliseconds since the epoch
+  lastAccess: number;
+}
+
+// record of a tile in the 'data' store
+interface CacheData {
+  url: string;
+  // identifies how the tile was decoded
+  decoderKey: string;
+  data: ArrayBuffer;
+}
+
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const DATA = 'data';
+
+const defaultOptions = {
+  name: 'leaflet.tilelayer.glcolorscale',
+  maxBytes: 100 * 1024 * 1024,
+};
+
+/**
+ * Wrap an IndexedDB request in a promise.
+ */
+function toPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction completes, or reject if it fails.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * A cache of decoded tiles in IndexedDB, keyed by tile URL, which persists across page loads. Once
+ * the data in the cache exceed `maxBytes`, the least recently used tiles are evicted.
+ *
+ * The cache never rejects: if IndexedDB is unavailable or fails, tiles are simply not cached.
+ */
+export default class PersistentTileCache {
+  /**
+   * Open a cache with the given options, or return `undefined` if IndexedDB isn't available.
+   */
+  static open(options: PersistentCacheOptions): PersistentTileCache | undefined {
+    if (typeof indexedDB === 'undefined') {
+      return undefined;
+    }
+    return new PersistentTileCache(options);
+  }
+
+  readonly name: string;
+  readonly maxBytes: number;
+
+  // the open database, or `undefined` if it couldn't be opened
+  protected _db: Promise<IDBDatabase | undefined>;
+
+  constructor(options: PersistentCacheOptions) {
+    const { name, maxBytes } = Object.assign({}, defaultOptions, options);
+    const openRequest = indexedDB.open(name, DB_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const db: IDBDatabase = openRequest.result;
+      db.createObjectStore(ENTRIES, { keyPath: 'url' }).createIndex('lastAccess', 'lastAccess');
+      db.createObjectStore(DATA, { keyPath: 'url' });
+    };
+    Object.assign(this, {
+      name,
+      maxBytes,
+      _db: toPromise<IDBDatabase>(openRequest).catch(() => undefined),
+    });
+  }
+
+  /**
+   * Get the data of the tile at the given URL, if it's in the cache and was decoded the same way,
+   * and mark it as recently used.
+   */
+  async get(url: string, decoderKey: string): Promise<Uint8Array | undefined> {
+    const db = await this._db;
+    if (!db) {
+      return undefined;
+    }
+    try {
+      const transaction = db.transaction([ENTRIES, DATA], 'readwrite');
+      const record = await toPromise<CacheData | undefined>(transaction.objectStore(DATA).get(url));
+      if (!record || record.decoderKey !== decoderKey) {
+        return undefined;
+      }
+      const entry: CacheEntry = { url, size: record.data.byteLength, lastAccess: Date.now() };
+      transaction.objectStore(ENTRIES).put(entry);
+      return new Uint8Array(record.data);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store the data of the tile at the given URL, then evict the least recently used tiles if the
+   * cache has grown too large.
+   */
+  async put(url: string, decoderKey: string, pixelData: Uint8Array): Promise<void> {
+    const db = await this._db;
+    if (!db || pixelData.byteLength > this.maxBytes) {
+      return;
+    }
+    try {
+      const transaction = db.transaction([ENTRIES, DATA], 'readwrite');
+      // Copy exactly the tile's bytes, rather than the whole buffer they may be part of.
+      const record: CacheData = { url, decoderKey, data: pixelData.slice().buffer as ArrayBuffer };
+      const entry: CacheEntry = { url, size: pixelData.byteLength, lastAccess: Date.now() };
+      transaction.objectStore(DATA).put(record);
+      transaction.objectStore(ENTRIES).put(entry);
+      await transactionDone(transaction);
+      await this._evict(db);
+    } catch (error) {
+      // Leave the tile uncached (e.g. if the storage quota is exceeded).
+    }
+  }
+
+  /**
+   * Delete the least recently used tiles until the data in the cache fit in `maxBytes`.
+   */
+  protected async _evict(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction([ENTRIES, DATA], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES);
+    const data = transaction.objectStore(DATA);
+
+    // Scan the entries from least to most recently used.
+    const scanned: CacheEntry[] = [];
+    await new Promise((resolve, reject) => {
+      const cursorRequest = entries.index('lastAccess').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor: IDBCursorWithValue | null = cursorRequest.result;
+        if (cursor) {
+          scanned.push(cursor.value);
+          cursor.continue();
+        } else {
+          resolve();
+        }
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+
+    let totalBytes = scanned.reduce((total, { size }) => total + size, 0);
+    for (const { url, size } of scanned) {
+      if (totalBytes <= this.maxBytes) {
+        break;
+      }
+      entries.delete(url);
+      data.delete(url);
+      totalBytes -= size;
+    }
+    await transactionDone(transaction);
+  }
+}
@@ -2,79 +2,138 @@ import * as L from 'leaflet';
 import {
   chunk,
   flatMap,
+  pull,
   zipWith,
 } from 'lodash-es';
 import REGL from 'regl';
 
+import ColorScaleTexture from './ColorScaleTexture';
 import { CLEAR_COLOR } from './constants';
 import * as commands from './regl-commands';
 import TextureManager from './TextureManager';
 import {
+  CanvasLayout,
+  Contour,
   DrawTile,
   DrawTileInterpolateColor,
   DrawTileInterpolateValue,
+  HillshadeOptions,
+  NodataValues,
   Pair,
+  Resampling,
+  TextureBounds,
   TileCoordinates,
   TileDatum,
 } from './types';
 import * as util from './util';
 
-import {
-  Color,
-  SentinelValue,
-} from './types';
+import { ColorScaleSettings } from './types';
+
+// offsets of the tiles to the left, right, top and bottom of a tile
+const NEIGHBOR_OFFSETS: Array<Pair<number>> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// a batch of tiles rendered together, and the tiles uploaded to the texture atlas to render them
+interface TileChunk<T> {
+  tiles: T[];
+  atlasTiles: T[];
+}
 
 export default class Renderer {
   canvas: HTMLCanvasElement;
   regl: REGL.Regl;
   textureManager: TextureManager;
+  colorScaleTexture: ColorScaleTexture;
   tileSize: number;
+  nodata: NodataValues;
+  resampling: Resampling;
+  hillshade?: HillshadeOptions;
+  contours: Contour[];
+  // the contours' colors, parsed once rather than for every draw
+  contourColors: REGL.Vec4[];
+  // functions ending each transition in progress
+  transitionCancellers: Array<() => void>;
 
   // Regl draw commands.
   drawTile: REGL.DrawCommand<REGL.DefaultContext, DrawTile.Props>;
   drawTileInterpolateColor: REGL.DrawCommand<REGL.DefaultContext, DrawTileInterpolateColor.Props>;
   drawTileInterpolateValue: REGL.DrawCommand<REGL.DefaultContext, DrawTileInterpolateValue.Props>;
 
-  constructor(tileSize: number, nodataValue: number) {
+  constructor(
+    tileSize: number,
+    nodata: NodataValues,
+    resampling: Resampling = 'nearest',
+    hillshade?: HillshadeOptions,
+    contours: Contour[] = [],
+  ) {
     const canvas = L.DomUtil.create('canvas') as HTMLCanvasElement;
     const regl = REGL(canvas);
-    const commonDrawConfig = commands.getCommonDrawConfiguration(tileSize, nodataValue);
+    const commonDrawConfig = commands.getCommonDrawConfiguration(tileSize, nodata);
 
     // Assign object "instance" properties.
     Object.assign(this, {
       canvas,
       regl,
       tileSize,
+      nodata,
+      transitionCancellers: [],
       textureManager: new TextureManager(regl, tileSize),
+      colorScaleTexture: new ColorScaleTexture(regl),
       drawTile: commands.createDrawTileCommand(regl, commonDrawConfig),
       drawTileInterpolateColor: commands.createDrawTileInterpolateColorCommand(regl, commonDrawConfig),
       drawTileInterpolateValue: commands.createDrawTileInterpolateValueCommand(regl, commonDrawConfig),
     });
+    this.setDrawingOptions(resampling, hillshade, contours);
   }
 
+  /**
+   * Set the options that only change how tiles are drawn.
+   */
+  setDrawingOptions(resampling: Resampling, hillshade: HillshadeOptions | undefined, contours: Contour[]): void {
+    Object.assign(this, {
+      resampling,
+      hillshade,
+      contours,
+      contourColors: contours.map(({ color = 'black' }) => util.colorStringToWebGLFloats(color)),
+    });
+  }
+
+  /**
+   * Render a single tile, filling the canvas. It's rendered at `scale` times its size, which must be
+   * a whole number.
+   */
   renderTile(
     { coords, pixelData }: TileDatum,
-    colorScale: Color[],
-    sentinelValues: SentinelValue[],
+    colorScaleSettings: ColorScaleSettings,
+    scale = 1,
   ): Pair<number> {
     const {
+      colorScaleTexture,
       regl,
       textureManager,
-      tileSize,
+      resampling,
     } = this;
+    const size = this.tileSize * scale;
     // Set canvas size.
-    this.setCanvasSize(tileSize, tileSize);
+    this.setCanvasSize(size, size);
     // Add image to the texture and retrieve its texture coordinates.
     const textureBounds = textureManager.addTile(coords, pixelData);
+    // Upload the color scale and sentinel values to the lookup texture.
+    colorScaleTexture.update(colorScaleSettings);
 
     // Render.
     regl.clear({ color: CLEAR_COLOR });
     this.drawTile({
-      colorScale: util.convertColorScale(colorScale),
-      sentinelValues: util.convertColorScale(sentinelValues),
-      canvasSize: [tileSize, tileSize],
+      colorScale: colorScaleTexture,
+      canvasSize: [size, size],
       canvasCoordinates: [0, 0],
+      scale,
+      resampling,
+      hillshade: this.hillshade,
+      pixelSize: util.groundPixelSize(coords, this.tileSize),
+      contours: this.contours,
+      contourColors: this.contourColors,
       textureBounds,
+      neighborBounds: this.getNeighborBounds(textureManager, coords),
       texture: textureManager.texture,
     });
 
@@ -84,62 +143,66 @@ export default class Renderer {
 
   renderTiles(
     tiles: TileDatum[],
-    colorScale: Color[],
-    sentinelValues: SentinelValue[],
+    colorScaleSettings: ColorScaleSettings,
+    getLayout?: () => CanvasLayout,
   ): Array<Pair<number>> {
+    // A transition in progress would draw over these tiles.
+    this.cancelTransitions();
     const {
+      colorScaleTexture,
       regl,
       textureManager,
+      resampling,
     } = this;
 
-    // Compute required canvas dimensions, then resize the canvas.
-    const [canvasWidth, canvasHeight] = this.computeRequiredCanvasDimensions(tiles.length);
-    this.setCanvasSize(canvasWidth, canvasHeight);
+    // Compute where each tile will be rendered, then resize the canvas.
+    const { canvasSize, canvasCoordinates, scales } = this.layoutTiles(tiles.length, getLayout);
+    this.setCanvasSize(canvasSize[0], canvasSize[1]);
 
-    // Compute the coordinates at which each tile will be rendered in the canvas.
-    const canvasCoordinates = this.getCanvasCoordinates(canvasWidth, canvasHeight, tiles.length);
+    type TileWithCanvasCoords = TileDatum & { canvasCoords: Pair<number>, scale: number };
 
-    type TileWithCanvasCoords = TileDatum & { canvasCoords: Pair<number> };
-
-    // Form an array combining each tile datum with the coordinates at which it will be rendered.
-    const tilesWithCanvasCoordinates = zipWith<TileDatum | Pair<number>, TileWithCanvasCoords>(
+    // Form an array combining each tile datum with the coordinates and scale at which it will be rendered.
+    const tilesWithCanvasCoordinates = zipWith<TileDatum | Pair<number> | number, TileWithCanvasCoords>(
       tiles,
       canvasCoordinates,
-      (tile: TileDatum, canvasCoords: Pair<number>) => ({
+      scales,
+      (tile: TileDatum, canvasCoords: Pair<number>, scale: number) => ({
         ...tile,
         canvasCoords,
+        scale,
       }),
     );
 
-    // Convert the color scale and sentinel values to the form expected by WebGL.
-    const webGLColorScale = util.convertColorScale(colorScale);
-    const webGLSentinelValues = util.convertColorScale(sentinelValues);
-
-    const canvasSize = [canvasWidth, canvasHeight] as Pair<number>;
+    // Upload the color scale and sentinel values to the lookup texture.
+    colorScaleTexture.update(colorScaleSettings);
 
     // Clear existing tiles from cache.
     textureManager.clearTiles();
     // Clear the canvas.
     regl.clear({ color: CLEAR_COLOR });
 
-    // Split the tiles array into chunks the size of the texture capacity. If we need to render more
-    // tiles than will fit in the texture, we have to render in batches.
-    const chunks = chunk(tilesWithCanvasCoordinates, textureManager.tileCapacity);
+    // Split the tiles array into chunks that fit in the texture. If we need to render more tiles than
+    // will fit in the texture, we have to render in batches.
+    const chunks = this.chunkTiles(tilesWithCanvasCoordinates);
 
     // Render chunk by chunk.
-    for (const chunk of chunks) {
+    for (const { tiles: chunk, atlasTiles } of chunks) {
       // Add tiles.
-      const textureBounds = chunk.map(
-        ({ coords, pixelData }) => textureManager.addTile(coords, pixelData),
-      );
+      atlasTiles.forEach(({ coords, pixelData }) => textureManager.addTile(coords, pixelData));
 
       // Render each tile.
-      this.drawTile(chunk.map(({ canvasCoords }, index) => ({
-        colorScale: webGLColorScale,
-        sentinelValues: webGLSentinelValues,
+      this.drawTile(chunk.map(({ coords, canvasCoords, scale }) => ({
+        colorScale: colorScaleTexture,
         canvasSize,
         canvasCoordinates: canvasCoords,
-        textureBounds: textureBounds[index],
+        scale,
+        resampling,
+        hillshade: this.hillshade,
+        pixelSize: util.groundPixelSize(coords, this.tileSize),
+        contours: this.contours,
+        contourColors: this.contourColors,
+        textureBounds: textureManager.getTileBounds(coords) as TextureBounds,
+        neighborBounds: this.getNeighborBounds(textureManager, coords),
         texture: textureManager.texture,
       })));
     }
@@ -150,84 +213,83 @@ export default class Renderer {
   async renderTilesWithTransition(
     oldTiles: TileDatum[],
     newTiles: TileDatum[],
-    colorScale: Color[],
-    sentinelValues: SentinelValue[],
+    colorScaleSettings: ColorScaleSettings,
     transitionDurationMs: number,
     onFrameRendered: (canvasCoordinates: Array<Pair<number>>) => void,
+    getLayout?: () => CanvasLayout,
   ) {
+    // Only the newest transition is drawn, so that it can't be overwritten by an older one's frames.
+    this.cancelTransitions();
+    // This transition's own reference to the atlas it replaces, as `this.textureManager` is only
+    // replaced at its end.
     const {
+      colorScaleTexture,
       regl,
       textureManager,
       tileSize,
     } = this;
 
-    // Compute required canvas dimensions, then resize the canvas.
-    const canvasSize = this.computeRequiredCanvasDimensions(oldTiles.length);
-    const [canvasWidth, canvasHeight] = canvasSize;
-    this.setCanvasSize(canvasWidth, canvasHeight);
-
-    // Compute the coordinates at which each tile will be rendered in the canvas.
-    const canvasCoordinates = this.getCanvasCoordinates(canvasWidth, canvasHeight, oldTiles.length);
-
-    interface TilesWithCanvasCoords {
-      canvasCoords: Pair<number>;
+    interface TileTransition {
+      // index of the tile in the layout
+      index: number;
       coords: TileCoordinates;
       oldPixelData: Uint8Array;
       newPixelData: Uint8Array;
     }
 
-    // Form an array combining each tile datum with the coordinates at which it will be rendered.
-    const tilesWithCanvasCoordinates = zipWith<TileDatum | Pair<number>, TilesWithCanvasCoords>(
-      oldTiles,
-      newTiles,
-      canvasCoordinates,
-      (oldTile: TileDatum, newTile: TileDatum, canvasCoords: Pair<number>) => ({
-        coords: oldTile.coords,
-        oldPixelData: oldTile.pixelData,
-        newPixelData: newTile.pixelData,
-        canvasCoords,
-      }),
-    );
+    // Form an array combining each tile's old and new data.
+    const tileTransitions: TileTransition[] = oldTiles.map((oldTile, index) => ({
+      index,
+      coords: oldTile.coords,
+      oldPixelData: oldTile.pixelData,
+      newPixelData: newTiles[index].pixelData,
+    }));
 
     // Create a new TextureManager to hold the new data. After the transition, this will replace the
     // Renderer's stored TextureManager.
     const newTextureManager = new TextureManager(regl, tileSize);
 
-    // Convert the color scale and sentinel values to the form expected by WebGL.
-    const webGLColorScale = util.convertColorScale(colorScale);
-    const webGLSentinelValues = util.convertColorScale(sentinelValues);
-
-    // Record the starting time.
-    const transitionStart = regl.now();
+    // Upload the color scale and sentinel values to the lookup texture.
+    colorScaleTexture.update(colorScaleSettings);
 
     const renderFrame = (interpolationFraction: number) => {
-      // Split the tiles array into chunks the size of the texture capacity. If we need to render more
-      // tiles than will fit in the texture, we have to render in batches.
-      const chunks = chunk(tilesWithCanvasCoordinates, textureManager.tileCapacity);
+      // Compute where each tile will be rendered, then resize the canvas. This is done for every
+      // frame, as the layout may change during the transition (e.g. as the map moves).
+      const { canvasSize, canvasCoordinates, scales } = this.layoutTiles(oldTiles.length, getLayout);
+      this.setCanvasSize(canvasSize[0], canvasSize[1]);
+
+      // Split the tiles array into chunks that fit in the texture. If we need to render more tiles
+      // than will fit in the texture, we have to render in batches.
+      const chunks = this.chunkTiles(tileTransitions);
 
       // Clear the canvas.
       regl.clear({ color: CLEAR_COLOR });
 
       // Render chunk by chunk.
-      for (const chunk of chunks) {
+      for (const { tiles: chunk, atlasTiles } of chunks) {
         // Add tiles.
-        const oldTextureBounds = chunk.map(
-          ({ coords, oldPixelData }) => textureManager.addTile(coords, oldPixelData),
-        );
-        const newTextureBounds = chunk.map(
-          ({ coords, newPixelData }) => newTextureManager.addTile(coords, newPixelData),
-        );
+        atlasTiles.forEach(({ coords, oldPixelData, newPixelData }) => {
+          textureManager.addTile(coords, oldPixelData);
+          newTextureManager.addTile(coords, newPixelData);
+        });
 
         // Render each tile.
-        this.drawTileInterpolateValue(chunk.map(({ canvasCoords }, index) => ({
-          colorScale: webGLColorScale,
-          sentinelValues: webGLSentinelValues,
+        this.drawTileInterpolateValue(chunk.map(({ index: tileIndex, coords }) => ({
+          colorScale: colorScaleTexture,
           canvasSize,
-          canvasCoordinates: canvasCoords,
+          canvasCoordinates: canvasCoordinates[tileIndex],
+          scale: scales[tileIndex],
+          resampling: this.resampling,
+          hillshade: this.hillshade,
+          pixelSize: util.groundPixelSize(coords, tileSize),
+          contours: this.contours,
+          contourColors: this.contourColors,
           textureA: textureManager.texture,
           textureB: newTextureManager.texture,
-          textureBoundsA: oldTextureBounds[index],
-          textureBoundsB: newTextureBounds[index],
+          textureBoundsA: textureManager.getTileBounds(coords) as TextureBounds,
+          textureBoundsB: newTextureManager.getTileBounds(coords) as TextureBounds,
+          neighborBoundsA: this.getNeighborBounds(textureManager, coords),
+          neighborBoundsB: this.getNeighborBounds(newTextureManager, coords),
           interpolationFraction,
         })));
       }
@@ -236,110 +298,98 @@ export default class Renderer {
       onFrameRendered(canvasCoordinates);
     };
 
-    const animationHandle = regl.frame(({ time }) => {
-      const elapsedTimeMs = (time - transitionStart) * 1000;
-      const interpolationFraction = elapsedTimeMs / transitionDurationMs;
-      renderFrame(interpolationFraction);
-    });
-
-    await util.Timer(transitionDurationMs);
-    animationHandle.cancel();
-
-    // Render again, in case previous frames didn't make it all the way to interpolationFraction 1.0.
-    renderFrame(1);
+    if (!await this.animateTransition(transitionDurationMs, renderFrame, () => newTextureManager.destroy())) {
+      return;
+    }
 
     // Clean up the old TextureManager and replace it with the new one.
-    this.textureManager.destroy();
+    textureManager.destroy();
     this.textureManager = newTextureManager;
   }
 
   async renderTilesWithTransitionAndNewColorScale(
     oldTiles: TileDatum[],
     newTiles: TileDatum[],
-    oldColorScale: Color[],
-    newColorScale: Color[],
-    oldSentinelValues: SentinelValue[],
-    newSentinelValues: SentinelValue[],
+    oldColorScaleSettings: ColorScaleSettings,
+    newColorScaleSettings: ColorScaleSettings,
     transitionDurationMs: number,
     onFrameRendered: (canvasCoordinates: Array<Pair<number>>) => void,
+    getLayout?: () => CanvasLayout,
   ) {
+    // Only the newest transition is drawn, so that it can't be overwritten by an older one's frames.
+    this.cancelTransitions();
+    // This transition's own reference to the atlas it replaces, as `this.textureManager` is only
+    // replaced at its end.
     const {
       regl,
       textureManager,
       tileSize,
     } = this;
 
-    // Compute required canvas dimensions, then resize the canvas.
-    const canvasSize = this.computeRequiredCanvasDimensions(oldTiles.length);
-    const [canvasWidth, canvasHeight] = canvasSize;
-    this.setCanvasSize(canvasWidth, canvasHeight);
-
-    // Compute the coordinates at which each tile will be rendered in the canvas.
-    const canvasCoordinates = this.getCanvasCoordinates(canvasWidth, canvasHeight, oldTiles.length);
-
-    interface TilesWithCanvasCoords {
-      canvasCoords: Pair<number>;
+    interface TileTransition {
+      // index of the tile in the layout
+      index: number;
       coords: TileCoordinates;
       oldPixelData: Uint8Array;
       newPixelData: Uint8Array;
     }
 
-    // Form an array combining each tile datum with the coordinates at which it will be rendered.
-    const tilesWithCanvasCoordinates = zipWith<TileDatum | Pair<number>, TilesWithCanvasCoords>(
-      oldTiles,
-      newTiles,
-      canvasCoordinates,
-      (oldTile: TileDatum, newTile: TileDatum, canvasCoords: Pair<number>) => ({
-        coords: oldTile.coords,
-        oldPixelData: oldTile.pixelData,
-        newPixelData: newTile.pixelData,
-        canvasCoords,
-      }),
-    );
+    // Form an array combining each tile's old and new data.
+    const tileTransitions: TileTransition[] = oldTiles.map((oldTile, index) => ({
+      index,
+      coords: oldTile.coords,
+      oldPixelData: oldTile.pixelData,
+      newPixelData: newTiles[index].pixelData,
+    }));
 
     // Create a new TextureManager to hold the new data. After the transition, this will replace the
     // Renderer's stored TextureManager.
     const newTextureManager = new TextureManager(regl, tileSize);
 
-    // Convert the color scales and sentinel values to the form expected by WebGL.
-    const colorScaleA = util.convertColorScale(oldColorScale);
-    const colorScaleB = util.convertColorScale(newColorScale);
-    const sentinelValuesA = util.convertColorScale(oldSentinelValues);
-    const sentinelValuesB = util.convertColorScale(newSentinelValues);
-
-    // Record the starting time.
-    const transitionStart = regl.now();
+    // Upload the old and new color scales and sentinel values to their own lookup textures. These
+    // are only needed for the duration of the transition.
+    const colorScaleA = new ColorScaleTexture(regl, oldColorScaleSettings);
+    const colorScaleB = new ColorScaleTexture(regl, newColorScaleSettings);
 
     const renderFrame = (interpolationFraction: number) => {
-      // Split the tiles array into chunks the size of the texture capacity. If we need to render more
-      // tiles than will fit in the texture, we have to render in batches.
-      const chunks = chunk(tilesWithCanvasCoordinates, textureManager.tileCapacity);
+      // Compute where each tile will be rendered, then resize the canvas. This is done for every
+      // frame, as the layout may change during the transition (e.g. as the map moves).
+      const { canvasSize, canvasCoordinates, scales } = this.layoutTiles(oldTiles.length, getLayout);
+      this.setCanvasSize(canvasSize[0], canvasSize[1]);
+
+      // Split the tiles array into chunks that fit in the texture. If we need to render more tiles
+      // than will fit in the texture, we have to render in batches.
+      const chunks = this.chunkTiles(tileTransitions);
 
       // Clear the canvas.
       regl.clear({ color: CLEAR_COLOR });
 
       // Render chunk by chunk.
-      for (const chunk of chunks) {
+      for (const { tiles: chunk, atlasTiles } of chunks) {
         // Add tiles.
-        const oldTextureBounds = chunk.map(
-          ({ coords, oldPixelData }) => textureManager.addTile(coords, oldPixelData),
-        );
-        const newTextureBounds = chunk.map(
-          ({ coords, newPixelData }) => newTextureManager.addTile(coords, newPixelData),
-        );
+        atlasTiles.forEach(({ coords, oldPixelData, newPixelData }) => {
+          textureManager.addTile(coords, oldPixelData);
+          newTextureManager.addTile(coords, newPixelData);
+        });
 
         // Render each tile.
-        this.drawTileInterpolateColor(chunk.map(({ canvasCoords }, index) => ({
+        this.drawTileInterpolateColor(chunk.map(({ index: tileIndex, coords }) => ({
           colorScaleA,
           colorScaleB,
-          sentinelValuesA,
-          sentinelValuesB,
           canvasSize,
-          canvasCoordinates: canvasCoords,
+          canvasCoordinates: canvasCoordinates[tileIndex],
+          scale: scales[tileIndex],
+          resampling: this.resampling,
+          hillshade: this.hillshade,
+          pixelSize: util.groundPixelSize(coords, tileSize),
+          contours: this.contours,
+          contourColors: this.contourColors,
           textureA: textureManager.texture,
           textureB: newTextureManager.texture,
-          textureBoundsA: oldTextureBounds[index],
-          textureBoundsB: newTextureBounds[index],
+          textureBoundsA: textureManager.getTileBounds(coords) as TextureBounds,
+          textureBoundsB: newTextureManager.getTileBounds(coords) as TextureBounds,
+          neighborBoundsA: this.getNeighborBounds(textureManager, coords),
+          neighborBoundsB: this.getNeighborBounds(newTextureManager, coords),
           interpolationFraction,
         })));
       }
@@ -348,42 +398,188 @@ export default class Renderer {
       onFrameRendered(canvasCoordinates);
     };
 
+    // Clean up the transition's lookup textures.
+    const destroyColorScales = () => {
+      colorScaleA.destroy();
+      colorScaleB.destroy();
+    };
+    const cancelled = !await this.animateTransition(transitionDurationMs, renderFrame, () => {
+      destroyColorScales();
+      newTextureManager.destroy();
+    });
+    if (cancelled) {
+      return;
+    }
+    destroyColorScales();
+
+    // Clean up the old TextureManager and replace it with the new one.
+    textureManager.destroy();
+    this.textureManager = newTextureManager;
+  }
+
+  removeTile(tileCoordinates: TileCoordinates): void {
+    this.textureManager.removeTile(tileCoordinates);
+  }
+
+  /**
+   * End any transitions in progress, without drawing their last frames.
+   */
+  cancelTransitions(): void {
+    this.transitionCancellers.slice().forEach((cancel) => cancel());
+  }
+
+  destroy(): void {
+    // End any transitions in progress, which can't draw once the WebGL context is gone.
+    this.cancelTransitions();
+    this.regl.destroy();
+  }
+
+  /**
+   * Lay out the given number of tiles side by side, at `scale` times their size (which must be a
+   * whole number), in a canvas just big enough for them.
+   */
+  layoutTilesSideBySide(numTiles: number, scale = 1): CanvasLayout {
+    const canvasSize = this.computeRequiredCanvasDimensions(numTiles, scale);
+    const canvasCoordinates = this.getCanvasCoordinates(canvasSize[0], canvasSize[1], numTiles, scale);
+    return {
+      canvasSize,
+      canvasCoordinates,
+      scales: canvasCoordinates.map(() => scale),
+    };
+  }
+
+  /**
+   * Call `renderFrame` with the fraction of the transition elapsed on every animation frame for the
+   * given duration, then with 1, in case previous frames didn't make it all the way. Resolves to
+   * `false`, without the last frame, if the transition is cancelled (by a newer transition or redraw,
+   * or by destroying the renderer). `onCancel` is called as soon as it's cancelled, to free the
+   * transition's resources while the WebGL context still exists.
+   */
+  protected async animateTransition(
+    transitionDurationMs: number,
+    renderFrame: (interpolationFraction: number) => void,
+    onCancel: () => void,
+  ): Promise<boolean> {
+    const { regl } = this;
+    // Record the starting time.
+    const transitionStart = regl.now();
     const animationHandle = regl.frame(({ time }) => {
       const elapsedTimeMs = (time - transitionStart) * 1000;
-      const interpolationFraction = elapsedTimeMs / transitionDurationMs;
-      renderFrame(interpolationFraction);
+      renderFrame(elapsedTimeMs / transitionDurationMs);
     });
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      animationHandle.cancel();
+      pull(this.transitionCancellers, cancel);
+      onCancel();
+    };
+    this.transitionCancellers.push(cancel);
 
     await util.Timer(transitionDurationMs);
+    pull(this.transitionCancellers, cancel);
+    if (cancelled) {
+      return false;
+    }
     animationHandle.cancel();
-
-    // Render again, in case previous frames didn't make it all the way to interpolationFraction 1.0.
     renderFrame(1);
+    return true;
+  }
 
-    // Clean up the old TextureManager and replace it with the new one.
-    this.textureManager.destroy();
-    this.textureManager = newTextureManager;
+  /**
+   * Whether drawing a tile reads pixels of the tiles next to it: for relief shading, and for
+   * resampling (which contour lines always use), so that neither stops at the tile's edges.
+   */
+  protected readsNeighbors(): boolean {
+    return Boolean(this.hillshade) || this.resampling !== 'nearest' || this.contours.length > 0;
   }
 
-  removeTile(tileCoordinates: TileCoordinates): void {
-    this.textureManager.removeTile(tileCoordinates);
+  /**
+   * Split tiles into chunks that fit in the texture atlas, to be rendered in batches. If drawing
+   * reads neighboring tiles, each chunk's tiles are uploaded along with their neighbors among the
+   * other tiles (as many as fit), so that drawing continues across the edges between chunks as well
+   * as within them.
+   */
+  protected chunkTiles<T extends { coords: TileCoordinates }>(tiles: T[]): Array<TileChunk<T>> {
+    const capacity = this.textureManager.tileCapacity;
+    if (!this.readsNeighbors()) {
+      return chunk(tiles, capacity).map((chunkTiles) => ({ tiles: chunkTiles, atlasTiles: chunkTiles }));
+    }
+    const key = ({ x, y, z }: TileCoordinates) => `${x}:${y}:${z}`;
+    const tilesByKey = new Map(tiles.map((tile): [string, T] => [key(tile.coords), tile]));
+    const chunks: Array<TileChunk<T>> = [];
+    let current: TileChunk<T> = { tiles: [], atlasTiles: [] };
+    let atlasKeys = new Set<string>();
+    for (const tile of tiles) {
+      const { x, y, z } = tile.coords;
+      const neighbors = NEIGHBOR_OFFSETS
+        .map(([dx, dy]) => tilesByKey.get(key({ x: x + dx, y: y + dy, z })))
+        .filter((neighbor): neighbor is T => neighbor !== undefined);
+      let needed = [tile, ...neighbors].filter(({ coords }) => !atlasKeys.has(key(coords)));
+      if (atlasKeys.size + needed.length > capacity && current.tiles.length > 0) {
+        chunks.push(current);
+        current = { tiles: [], atlasTiles: [] };
+        atlasKeys = new Set<string>();
+        needed = [tile, ...neighbors];
+      }
+      current.tiles.push(tile);
+      for (const neededTile of needed.slice(0, capacity - atlasKeys.size)) {
+        current.atlasTiles.push(neededTile);
+        atlasKeys.add(key(neededTile.coords));
+      }
+    }
+    if (current.tiles.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  /**
+   * If drawing reads neighboring tiles, get the bounds in a texture atlas of the tiles to the left,
+   * right, top and bottom of a tile, so that its shading and resampling continue across its edges.
+   * Neighbors that aren't in the atlas are `undefined`.
+   */
+  protected getNeighborBounds(
+    textureManager: TextureManager,
+    { x, y, z }: TileCoordinates,
+  ): Array<TextureBounds | undefined> {
+    if (!this.readsNeighbors()) {
+      return [];
+    }
+    return NEIGHBOR_OFFSETS.map(([dx, dy]) => textureManager.getTileBounds({ x: x + dx, y: y + dy, z }));
   }
 
   protected setCanvasSize(width: number, height: number): void {
-    Object.assign(this.canvas, { width, height });
+    // Resizing a canvas clears it, even to the same size, so leave it alone if the size is unchanged.
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      Object.assign(this.canvas, { width, height });
+    }
   }
 
-  protected computeRequiredCanvasDimensions(numTiles: number): Pair<number> {
-    const { tileSize } = this;
+  /**
+   * Compute where each of the given number of tiles will be rendered: per `getLayout`, if given, or
+   * otherwise side by side at their own size.
+   */
+  protected layoutTiles(numTiles: number, getLayout?: () => CanvasLayout): CanvasLayout {
+    return getLayout ? getLayout() : this.layoutTilesSideBySide(numTiles);
+  }
+
+  protected computeRequiredCanvasDimensions(numTiles: number, scale = 1): Pair<number> {
+    const size = this.tileSize * scale;
     const tilesAcross = Math.ceil(Math.sqrt(numTiles));
     const tilesDown = Math.ceil(numTiles / tilesAcross);
-    return [tilesAcross * tileSize, tilesDown * tileSize];
+    return [tilesAcross * size, tilesDown * size];
   }
 
-  protected getCanvasCoordinates(canvasWidth: number, canvasHeight: number, numTiles: number): Array<Pair<number>> {
-    const { tileSize } = this;
-    return flatMap(util.range(0, canvasHeight, tileSize), y =>
-      util.range(0, canvasWidth, tileSize).map(x => [x, y] as Pair<number>),
+  protected getCanvasCoordinates(
+    canvasWidth: number,
+    canvasHeight: number,
+    numTiles: number,
+    scale = 1,
+  ): Array<Pair<number>> {
+    const size = this.tileSize * scale;
+    return flatMap(util.range(0, canvasHeight, size), y =>
+      util.range(0, canvasWidth, size).map(x => [x, y] as Pair<number>),
     ).slice(0, numTiles);
   }
 }
@@ -12,6 +12,12 @@ import * as util from './util';
 
 const MAX_TEXTURE_DIMENSION = 1024;
 
+// a tile's position in the texture, and the data uploaded there
+interface TextureEntry {
+  textureCoordinates: TextureCoordinates;
+  data: ArrayBufferView;
+}
+
 export default class TextureManager {
   // width/height of a tile in pixels
   readonly tileSize: number;
@@ -24,9 +30,9 @@ export default class TextureManager {
   // the Regl Texture2D object
   readonly texture: REGL.Texture2D;
 
-  // map of tile coordinates to texture coordinates
+  // map of tile coordinates to texture coordinates and data
   // (key is hash string of tile coordinates: 'x:y:z')
-  protected contents: Map<string, TextureCoordinates>;
+  protected contents: Map<string, TextureEntry>;
   // texture coordinates positions that are currently available
   protected available: TextureCoordinates[];
 
@@ -42,7 +48,7 @@ export default class TextureManager {
       type: 'uint8',
     });
 
-    const contents = new Map<string, TextureCoordinates>();
+    const contents = new Map<string, TextureEntry>();
     const available = this.allTextureCoordinates(tilesAcross, tileSize);
 
     Object.assign(this, {
@@ -68,26 +74,24 @@ export default class TextureManager {
     } = this;
 
     const hashKey = this.hashTileCoordinates(tileCoordinates);
-    if (contents.has(hashKey)) {
-      const textureCoordinates = contents.get(hashKey) as TextureCoordinates;
+    const entry = contents.get(hashKey);
+    if (entry && entry.data === data) {
       // We use a least-recently-used eviction policy for the tile cache. Map iterators are
       // convenient for this, because they return entries in insertion order. But for this to work
       // as expected, every time we access a tile, we need to reinsert it so that it moves to the
       // end of that insertion-order list.
       contents.delete(hashKey);
-      contents.set(hashKey, textureCoordinates);
-      return this.formatOutputTextureCoordinates(textureCoordinates);
+      contents.set(hashKey, entry);
+      return this.formatOutputTextureCoordinates(entry.textureCoordinates);
     }
-    if (isEmpty(available)) {
+    if (entry === undefined && isEmpty(available)) {
       // Get the first key inserted. Map.prototype.keys() produces an iterable iterator over the keys
       // in the order of insertion, so we can just use the iterator's first value.
       const firstInsertedKey = contents.keys().next().value;
       this.removeByHashKey(firstInsertedKey);
     }
-    // remove from list of available positions
-    const textureCoordinates = available.pop() as TextureCoordinates;
-    // store mapping of tile to texture coordinates
-    contents.set(hashKey, textureCoordinates);
+    // A tile given new data is uploaded again, in the position it already has.
+    const textureCoordinates = entry ? entry.textureCoordinates : available[available.length - 1];
 
     const { x: textureX, y: textureY } = textureCoordinates;
     texture.subimage({
@@ -96,9 +100,25 @@ export default class TextureManager {
       height: tileSize,
     }, textureX, textureY);
 
+    // Only once the data are uploaded, remove the position from the list of available positions and
+    // store the mapping of tile to texture coordinates.
+    if (entry === undefined) {
+      available.pop();
+    }
+    contents.delete(hashKey);
+    contents.set(hashKey, { textureCoordinates, data });
+
     return this.formatOutputTextureCoordinates(textureCoordinates);
   }
 
+  /**
+   * Get the texture coordinates of a tile, if it's in the texture, without marking it as used.
+   */
+  getTileBounds(tileCoordinates: TileCoordinates): [TextureCoordinates, TextureCoordinates] | undefined {
+    const entry = this.contents.get(this.hashTileCoordinates(tileCoordinates));
+    return entry && this.formatOutputTextureCoordinates(entry.textureCoordinates);
+  }
+
   removeTile(tileCoordinates: TileCoordinates) {
     this.removeByHashKey(this.hashTileCoordinates(tileCoordinates));
   }
@@ -115,10 +135,10 @@ export default class TextureManager {
 
   protected removeByHashKey(hashKey: string) {
     // This method only removes the key. The pixel data remains in the texture.
-    if (this.contents.has(hashKey)) {
-      const textureCoordinates = this.contents.get(hashKey) as TextureCoordinates;
+    const entry = this.contents.get(hashKey);
+    if (entry) {
       this.contents.delete(hashKey);
-      this.available.push(textureCoordinates);
+      this.available.push(entry.textureCoordinates);
     }
   }
 
@@ -0,0 +1,203 @@
+import {
+  DecoderOptions,
+  Dictionary,
+  RetryOptions,
+  TileCoordinates,
+  TileEncoding,
+  WorkerJob,
+  WorkerResponse,
+} from './types';
+import * as util from './util';
+
+interface PendingJob {
+  worker: number;
+  resolve: (data: ArrayBuffer) => void;
+  reject: (error: Error) => void;
+  // removes the listener for the job's signal being aborted, once the job settles
+  removeAbortListener: () => void;
+}
+
+/**
+ * A small pool of Web Workers (running the script built from worker.ts) that fetch and decode tiles
+ * off the main thread. Each job goes to the worker with the fewest jobs in progress, and its result
+ * is transferred back rather than copied.
+ */
+export default class WorkerPool {
+  /**
+   * Create a pool of `size` workers running the script at `url`, or return `undefined` if workers
+   * aren't available (or the script can't be loaded), in which case tiles are handled on the main
+   * thread.
+   */
+  static create(url: string | undefined, size: number): WorkerPool | undefined {
+    if (!url || size < 1 || typeof Worker === 'undefined') {
+      return undefined;
+    }
+    try {
+      return new WorkerPool(url, size);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether an error rejecting a job means that no worker could run it (e.g. because the worker
+   * script couldn't be loaded), rather than that the job itself failed.
+   */
+  static isWorkerFailure(error: any): boolean {
+    return Boolean(error && error.workerFailure);
+  }
+
+  readonly url: string;
+  readonly size: number;
+
+  protected _workers: Worker[];
+  // number of jobs in progress in each worker
+  protected _jobCounts: number[];
+  protected _pendingJobs: Dictionary<PendingJob>;
+  protected _nextJobId: number;
+  // whether the pool takes no more jobs, and terminates its workers once the jobs in progress finish
+  protected _destroyed: boolean;
+
+  constructor(url: string, size: number) {
+    const workers = util.range(size).map((index) => {
+      const worker = new Worker(url);
+      worker.addEventListener('message', ({ data }: MessageEvent) => this._onMessage(data));
+      worker.addEventListener('error', () => this._onError(index));
+      return worker;
+    });
+    Object.assign(this, {
+      url,
+      size,
+      _workers: workers,
+      _jobCounts: workers.map(() => 0),
+      _pendingJobs: {},
+      _nextJobId: 0,
+      _destroyed: false,
+    });
+  }
+
+  /**
+   * Whether any of the workers are still working. Those that failed (e.g. because their script
+   * couldn't be loaded) are given no more jobs.
+   */
+  get available(): boolean {
+    return !this._destroyed && this._jobCounts.some((count) => count !== Infinity);
+  }
+
+  /**
+   * Fetch a tile with `util.fetchArrayBuffer`, retrying failed requests per `retry` (which can't
+   * include a `shouldRetry` function), and decode it with one of the built-in decoders, all in one
+   * worker. Resolves to the bytes of the decoded floats. Relative URLs are resolved against the
+   * page's URL, rather than the worker script's.
+   */
+  fetchAndDecode(
+    url: string,
+    coords: TileCoordinates,
+    decoder: TileEncoding | DecoderOptions,
+    retry: RetryOptions,
+    signal: AbortSignal,
+  ): Promise<ArrayBuffer> {
+    const absoluteUrl = new URL(url, location.href).href;
+    return this._run({ type: 'fetchAndDecode', url: absoluteUrl, coords, decoder, retry }, [], signal);
+  }
+
+  /**
+   * Decode a tile's bytes in a worker, with one of the built-in decoders. `data` is transferred to
+   * the worker, so it can't be used afterward.
+   */
+  decode(
+    data: ArrayBuffer,
+    decoder: TileEncoding | DecoderOptions,
+    signal: AbortSignal,
+  ): Promise<Float32Array> {
+    return this._run({ type: 'decode', data, decoder }, [data], signal)
+      .then((floats) => new Float32Array(floats));
+  }
+
+  /**
+   * Stop taking jobs, and terminate the workers as soon as the jobs in progress have finished.
+   */
+  destroy() {
+    this._destroyed = true;
+    this._terminateIfIdle();
+  }
+
+  /**
+   * Send a job to the least busy worker. If `signal` is aborted, the job is rejected at once, and
+   * the worker is told to abandon it.
+   */
+  protected _run(
+    job: WorkerJob,
+    transfer: ArrayBuffer[],
+    signal: AbortSignal,
+  ): Promise<ArrayBuffer> {
+    if (signal.aborted) {
+      return Promise.reject(new Error('Worker job was aborted.'));
+    }
+    if (!this.available) {
+      return Promise.reject(Object.assign(new Error('No workers are available.'), { workerFailure: true }));
+    }
+    const id = this._nextJobId++;
+    const worker = this._jobCounts.indexOf(Math.min(...this._jobCounts));
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (this._pendingJobs[id]) {
+          this._workers[worker].postMessage({ type: 'abort', id });
+          this._settle(id, { id, error: { message: 'Worker job was aborted.' } });
+        }
+      };
+      const removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+      this._pendingJobs[id] = { worker, resolve, reject, removeAbortListener };
+      this._jobCounts[worker] += 1;
+      this._workers[worker].postMessage({ ...job, id }, transfer);
+      signal.addEventListener('abort', onAbort);
+    });
+  }
+
+  protected _onMessage(response: WorkerResponse) {
+    this._settle(response.id, response);
+  }
+
+  /**
+   * A worker failed outside of any job (e.g. its script failed to load). Reject its jobs as worker
+   * failures, and stop sending it more.
+   */
+  protected _onError(worker: number) {
+    Object.keys(this._pendingJobs)
+      .map(Number)
+      .filter((id) => this._pendingJobs[id].worker === worker)
+      .forEach((id) => this._settle(id, { id, error: { message: 'Worker failed.', workerFailure: true } }));
+    this._jobCounts[worker] = Infinity;
+  }
+
+  /**
+   * Resolve or reject a pending job with a worker's response. The error, if any, is rebuilt with
+   * its HTTP status, so that retries work as they do on the main thread.
+   */
+  protected _settle(id: number, { data, error }: WorkerResponse) {
+    const job = this._pendingJobs[id];
+    if (!job) {
+      return;
+    }
+    delete this._pendingJobs[id];
+    job.removeAbortListener();
+    this._jobCounts[job.worker] -= 1;
+    if (error) {
+      const { message, status, workerFailure } = error;
+      job.reject(Object.assign(
+        new Error(message),
+        status === undefined ? {} : { status },
+        workerFailure ? { workerFailure } : {},
+      ));
+    } else {
+      job.resolve(data as ArrayBuffer);
+    }
+    this._terminateIfIdle();
+  }
+
+  protected _terminateIfIdle() {
+    if (this._destroyed && Object.keys(this._pendingJobs).length === 0) {
+      this._workers.forEach((worker) => worker.terminate());
+    }
+  }
+}
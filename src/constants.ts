@@ -1,11 +1,62 @@
 import REGL from 'regl';
 
-import { WebGLColorStop } from './types';
-
-export const SCALE_MAX_LENGTH = 16;
-export const SENTINEL_MAX_LENGTH = 16;
-export const CLEAR_COLOR: REGL.Vec4 = [0, 0, 0, 0];
-export const DEFAULT_COLOR_STOP: WebGLColorStop = {
-  color: CLEAR_COLOR,
-  offset: 0,
+// Color scales and sentinel values are uploaded to the GPU as lookup textures, one texel per stop,
+// so their length is bounded only by the width of a texture.
+export const SCALE_MAX_LENGTH = 4096;
+export const SENTINEL_MAX_LENGTH = 4096;
+// default tolerance for matching a sentinel value's offset, relative to the offset's magnitude
+export const SENTINEL_RELATIVE_TOLERANCE = 0.0001;
+// the largest finite 32-bit float, standing in for a missing bound of a range in the shaders
+export const FLOAT32_MAX = 3.4028234663852886e38;
+// Value filter ranges are scanned linearly, so there may be far fewer of them.
+export const VALUE_FILTER_MAX_LENGTH = 64;
+// No-data values are passed to the shaders as a uniform array, compared with every pixel.
+export const NODATA_MAX_LENGTH = 8;
+// tolerance for matching a no-data value, relative to the magnitude of the value or the pixel's value
+export const NODATA_RELATIVE_TOLERANCE = 0.0001;
+// Contours are also passed to the shaders as uniform arrays, and drawn over every pixel.
+export const CONTOURS_MAX_LENGTH = 16;
+// number of iterations needed for a binary search over the longest allowed scale
+export const SCALE_SEARCH_ITERATIONS = Math.ceil(
+  Math.log(Math.max(SCALE_MAX_LENGTH, SENTINEL_MAX_LENGTH) + 1) / Math.LN2,
+);
+// Layout of the lookup texture: the color scale occupies two rows, one of colors and one of
+// offsets. The sentinel values occupy three rows: one of colors, one of the lower bounds of the
+// values they match and one of the upper bounds. The value filter also occupies three rows: one of
+// flags, one of lower bounds and one of upper bounds.
+export const COLOR_SCALE_ROW = 0;
+export const SENTINEL_VALUES_ROW = 2;
+export const VALUE_FILTER_ROW = 5;
+export const SCALE_TEXTURE_ROWS = 8;
+// integer codes identifying color scale modes in the shaders
+export const COLOR_SCALE_MODE_CONTINUOUS = 0;
+export const COLOR_SCALE_MODE_THRESHOLD = 1;
+export const COLOR_SCALE_MODE_QUANTIZE = 2;
+export const COLOR_SCALE_MODE_STEPPED = 3;
+// integer codes identifying scale types in the shaders (a square root scale is a power scale)
+export const SCALE_TYPE_LINEAR = 0;
+export const SCALE_TYPE_LOG = 1;
+export const SCALE_TYPE_SYMLOG = 2;
+export const SCALE_TYPE_POW = 3;
+// integer codes identifying interpolation color spaces in the shaders
+export const INTERPOLATION_RGB = 0;
+export const INTERPOLATION_LAB = 1;
+export const INTERPOLATION_OKLAB = 2;
+export const INTERPOLATION_HCL = 3;
+// integer codes identifying resampling methods in the shaders
+export const RESAMPLING_NEAREST = 0;
+export const RESAMPLING_BILINEAR = 1;
+export const RESAMPLING_BICUBIC = 2;
+// In 'tiles' mode, tiles displayed larger than their size are rendered at up to this multiple of it
+// when resampling; beyond it, Leaflet scales them up.
+export const RESAMPLING_MAX_TILE_SCALE = 4;
+// default settings of relief shading
+export const HILLSHADE_DEFAULTS = {
+  azimuth: 315,
+  altitude: 45,
+  zFactor: 1,
+  strength: 0.5,
 };
+// Web Mercator's radius of the Earth, in meters
+export const EARTH_RADIUS = 6378137;
+export const CLEAR_COLOR: REGL.Vec4 = [0, 0, 0, 0];
@@ -0,0 +1,117 @@
+import { decode, Image, toRGBA8 } from 'upng-js';
+
+import {
+  DecoderOptions,
+  TileDecoder,
+  TileEncoding,
+} from './types';
+
+// number of channels for each PNG color type
+const CHANNELS: { [colorType: number]: number } = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // paletted
+  4: 2, // grayscale with alpha
+  6: 4, // RGBA
+};
+
+/**
+ * Copy the raw bytes of the pixels in a decoded PNG image (before any conversion to RGBA) to a new
+ * buffer. UPNG's output may have extra bytes at the end, which are dropped.
+ */
+function pixelBytes(image: Image): { bytes: Uint8Array, bytesPerPixel: number } {
+  const bytesPerPixel = CHANNELS[image.ctype] * image.depth / 8;
+  const bytes = new Uint8Array(image.data).slice(0, image.width * image.height * bytesPerPixel);
+  return { bytes, bytesPerPixel };
+}
+
+/**
+ * Each pixel is the bits of a 32-bit float, spread across the RGBA channels of an 8-bit PNG. The
+ * bytes are used as they are, in the machine's byte order.
+ */
+function decodeFloat32RGBA(data: ArrayBuffer): Float32Array {
+  return new Float32Array(pixelBytes(decode(data)).bytes.buffer);
+}
+
+/**
+ * Each pixel is the bits of a 64-bit float, spread across the RGBA channels of a 16-bit PNG. The
+ * bytes are used as they are, in the machine's byte order, and the values are rounded to 32 bits.
+ */
+function decodeFloat64RGBA(data: ArrayBuffer): Float32Array {
+  return new Float32Array(new Float64Array(pixelBytes(decode(data)).bytes.buffer));
+}
+
+/**
+ * Each pixel is an integer in the first channel of a PNG (typically a grayscale one): an 8-bit
+ * unsigned integer, or a 16-bit (big-endian, as in all PNGs) unsigned or signed integer. The
+ * integer is rescaled linearly: value = integer * scale + offset.
+ */
+function integerDecoder(bits: 8 | 16, signed: boolean, scale: number, offset: number): TileDecoder {
+  return (data) => {
+    const { bytes, bytesPerPixel } = pixelBytes(decode(data));
+    const dataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const output = new Float32Array(bytes.length / bytesPerPixel);
+    for (let index = 0; index < output.length; ++index) {
+      const byteIndex = index * bytesPerPixel;
+      const integer = (
+        bits === 8 ? bytes[byteIndex]
+        : signed ? dataView.getInt16(byteIndex, false)
+        : dataView.getUint16(byteIndex, false)
+      );
+      output[index] = integer * scale + offset;
+    }
+    return output;
+  };
+}
+
+/**
+ * Each pixel is an elevation in meters encoded in the RGB channels of an 8-bit PNG, by the given
+ * function of the red, green and blue values.
+ */
+function rgbDecoder(toValue: (red: number, green: number, blue: number) => number): TileDecoder {
+  return (data) => {
+    // Convert to RGBA first, as these tiles may be paletted.
+    const rgba = new Uint8Array(toRGBA8(decode(data))[0]);
+    const output = new Float32Array(rgba.length / 4);
+    for (let index = 0; index < output.length; ++index) {
+      output[index] = toValue(rgba[index * 4], rgba[index * 4 + 1], rgba[index * 4 + 2]);
+    }
+    return output;
+  };
+}
+
+/**
+ * Create a function that decodes a tile image into one 32-bit float per pixel. Accepts the name of
+ * a built-in encoding, the name of an integer encoding along with a `scale` and `offset`, or a
+ * custom decoding function.
+ */
+export default function createDecoder(decoder: TileEncoding | DecoderOptions | TileDecoder): TileDecoder {
+  if (typeof decoder === 'function') {
+    return decoder;
+  }
+  const {
+    encoding,
+    scale = 1,
+    offset = 0,
+  }: DecoderOptions = typeof decoder === 'string' ? { encoding: decoder } : decoder;
+  switch (encoding) {
+    case 'float32-rgba':
+      return decodeFloat32RGBA;
+    case 'float64-rgba':
+      return decodeFloat64RGBA;
+    case 'uint8':
+      return integerDecoder(8, false, scale, offset);
+    case 'uint16':
+      return integerDecoder(16, false, scale, offset);
+    case 'int16':
+      return integerDecoder(16, true, scale, offset);
+    case 'terrain-rgb':
+      // https://docs.mapbox.com/data/tilesets/reference/mapbox-terrain-rgb-v1/
+      return rgbDecoder((red, green, blue) => -10000 + (red * 65536 + green * 256 + blue) * 0.1);
+    case 'terrarium':
+      // https://github.com/tilezen/joerd/blob/master/docs/formats.md#terrarium
+      return rgbDecoder((red, green, blue) => red * 256 + green + blue / 256 - 32768);
+    default:
+      throw new Error(`'${encoding}' is not a known tile encoding.`);
+  }
+}
@@ -0,0 +1,31 @@
+// Typings for the parts of the `geotiff` package used by GeoTIFFSource. The package's own typings
+// need a newer TypeScript, so tsconfig.json maps `geotiff` to this file.
+
+export interface GeoTIFF {
+  getImageCount(): Promise<number>;
+  getImage(index?: number): Promise<GeoTIFFImage>;
+}
+
+export interface GeoTIFFImage {
+  // the image's TIFF tags, by name
+  fileDirectory: { [tag: string]: number | number[] | string | undefined };
+  getWidth(): number;
+  getHeight(): number;
+  getSamplesPerPixel(): number;
+  getOrigin(): number[];
+  getResolution(referenceImage?: GeoTIFFImage): number[];
+  getGDALNoData(): number | null;
+  getGeoKeys(): { [key: string]: number | number[] | string | undefined } | null;
+  readRasters(options: ReadRasterOptions): Promise<ArrayLike<number>>;
+}
+
+export interface ReadRasterOptions {
+  // left, top, right and bottom of the area to read, in pixels
+  window?: number[];
+  samples?: number[];
+  interleave?: boolean;
+  signal?: AbortSignal;
+}
+
+export function fromUrl(url: string): Promise<GeoTIFF>;
+export function fromArrayBuffer(arrayBuffer: ArrayBuffer): Promise<GeoTIFF>;
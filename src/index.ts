@@ -1,23 +1,37 @@
 import * as L from 'leaflet';
 import {
+  isEqual,
   isUndefined,
   mapValues,
   noop,
+  pick,
   pickBy,
+  sortBy,
   values,
-  zipWith,
 } from 'lodash-es';
 
 import './index.css';
 
 import {
+  CONTOURS_MAX_LENGTH,
+  NODATA_MAX_LENGTH,
+  RESAMPLING_MAX_TILE_SCALE,
   SCALE_MAX_LENGTH,
   SENTINEL_MAX_LENGTH,
+  VALUE_FILTER_MAX_LENGTH,
 } from './constants';
+import createDecoder from './decoders';
+import Legend from './Legend';
+import palette, { palettes } from './palettes';
+import PersistentTileCache from './PersistentTileCache';
 import Renderer from './Renderer';
 import {
+  CanvasLayout,
+  Contour,
   GridLayerTile,
   Pair,
+  PersistentCacheOptions,
+  PreloadRequest,
   PreloadTileCache,
   TileCache,
   TileCoordinates,
@@ -26,10 +40,32 @@ import {
   TileEvent,
 } from './types';
 import * as util from './util';
+import WorkerPool from './WorkerPool';
 
 import {
+  AutoDomainOptions,
   Color,
+  ColorScaleMode,
+  ColorScaleSettings,
+  DataSource,
+  DecoderOptions,
+  DomainStatistics,
+  FetchTile,
+  HillshadeOptions,
+  Interpolation,
+  NodataValue,
+  NodataValues,
+  Operation,
+  RenderMode,
+  Resampling,
+  RetryOptions,
+  ScaleType,
   SentinelValue,
+  TileDecoder,
+  TileEncoding,
+  TileError,
+  TileSource,
+  ValueFilter,
 } from './types';
 
 /**
@@ -42,32 +78,96 @@ import {
 declare module 'leaflet' {
   interface GridLayer {
     _globalTileRange: L.Bounds;
+    _zoomAnimated: boolean;
     _pruneTiles(): void;
+    _invalidateAll(): void;
+    _resetView(): void;
   }
 }
 
+// options of L.TileLayer that are interpolated into tile URLs
+const URL_TEMPLATE_OPTIONS: Array<keyof Options> = ['subdomains', 'tms', 'zoomOffset', 'zoomReverse'];
+
 const BYTES_PER_WORD = 4; // four bytes in a 32-bit float
 const littleEndian = util.machineIsLittleEndian();
 
 export interface MouseEvent extends L.LeafletMouseEvent {
   pixelValue?: number | SentinelValue;
+  // for an arithmetic layer, the values of its two inputs (`undefined` where they have no data)
+  pixelValueA?: number;
+  pixelValueB?: number;
+  // for classed color scales, the index and label of the color stop defining the pixel's class
+  classIndex?: number;
+  classLabel?: string;
+  // whether the pixel is hidden by the value filter
+  filtered?: boolean;
 }
 
 interface EventsObject {
   [name: string]: (event: L.LeafletEvent) => void;
 }
 
+// In 'canvas' mode, the state of the map when the layer's canvas was last aligned with it: the
+// layer point of the canvas's top left corner, the map's pixel origin, center and zoom.
+interface CanvasPosition {
+  origin: L.Point;
+  pixelOrigin: L.Point;
+  center: L.LatLng;
+  zoom: number;
+}
+
 export interface Options extends L.GridLayerOptions {
-  url: string;
-  nodataValue: number;
+  // tile URL template; required unless `source` is given
+  url?: string;
+  // produces tile data programmatically, instead of fetching them from `url`
+  source?: TileSource;
+  // the second input (b) of an arithmetic layer, combined with the first (`url` or `source`) per pixel
+  urlB?: string;
+  sourceB?: TileSource;
+  // how an arithmetic layer's inputs are combined: 'difference', 'ratio' or 'change'
+  operation?: Operation;
+  // value(s) of pixels without data, or 'NaN'; required, unless `source` provides one
+  nodataValue?: NodataValue;
+  // how pixel values are encoded in tile images, or a function decoding them
+  decoder?: TileEncoding | DecoderOptions | TileDecoder;
+  // fetches the bytes of a tile image (by default, with a plain XMLHttpRequest)
+  fetchTile?: FetchTile;
+  // how failed tile requests are retried
+  retry?: RetryOptions;
+  // URL of the worker script (dist/worker.js), to fetch and decode tiles off the main thread
+  workerUrl?: string;
+  // number of workers to fetch and decode tiles with
+  workers?: number;
+  // keep decoded tiles in IndexedDB, to reuse them across page loads
+  persistentCache?: PersistentCacheOptions;
+  // fill color for tiles that failed to load (drawn beneath `errorTileUrl`, if both are given)
+  errorTileColor?: string;
+  // draw each tile in its own canvas, or all tiles in one canvas aligned with the map
+  renderMode?: RenderMode;
+  // how values are interpolated in tiles displayed larger than their size (past `maxNativeZoom`)
+  resampling?: Resampling;
+  // shade the surface formed by pixel values, as if lit from one direction
+  hillshade?: HillshadeOptions;
+  // lines drawn where pixel values cross given values
+  contours?: Contour[];
   colorScale?: Color[];
   sentinelValues?: SentinelValue[];
+  // hide pixels whose values fall outside the given range(s)
+  valueFilter?: ValueFilter;
+  colorScaleMode?: ColorScaleMode;
+  scaleType?: ScaleType;
+  scaleExponent?: number;
+  interpolation?: Interpolation;
+  // fit the color scale to the data in the visible tiles
+  autoDomain?: AutoDomainOptions;
   preloadUrl?: string;
+  // tile source to preload in the background, instead of `preloadUrl`
+  preloadSource?: TileSource;
   transitions?: boolean;
   transitionTimeMs?: number;
 
   // handler for the 'load' event, fired when all tiles loaded.
-  onload?: (event: { url: string }) => void;
+  onload?: (event: { url?: string, source?: TileSource }) => void;
 
   // mouse event handlers
   onclick?: (event: MouseEvent) => void;
@@ -94,8 +194,21 @@ export interface Options extends L.GridLayerOptions {
 }
 
 const defaultOptions = {
-  colorScale: [],
-  sentinelValues: [],
+  operation: 'difference' as Operation,
+  decoder: 'float32-rgba' as TileEncoding | DecoderOptions | TileDecoder,
+  fetchTile: util.fetchArrayBuffer as FetchTile,
+  retry: {} as RetryOptions,
+  workers: 2,
+  renderMode: 'tiles' as RenderMode,
+  resampling: 'nearest' as Resampling,
+  contours: [] as Contour[],
+  colorScale: [] as Color[],
+  sentinelValues: [] as SentinelValue[],
+  valueFilter: [] as ValueFilter,
+  colorScaleMode: 'continuous' as ColorScaleMode,
+  scaleType: 'linear' as ScaleType,
+  scaleExponent: 1,
+  interpolation: 'rgb' as Interpolation,
   transitions: true,
   transitionTimeMs: 800,
 
@@ -115,18 +228,45 @@ const defaultOptions = {
  * The options type used internally. Because submitted options are merged with defaults, fewer
  * properties have the potential to be `undefined` compared with `Options`.
  */
-export type InternalOptions = Options & typeof defaultOptions;
+export type InternalOptions = Options & typeof defaultOptions & { nodataValue: NodataValue };
 
 export default class GLColorScale extends L.GridLayer {
+  static readonly CONTOURS_MAX_LENGTH: number = CONTOURS_MAX_LENGTH;
+  static readonly NODATA_MAX_LENGTH: number = NODATA_MAX_LENGTH;
   static readonly SCALE_MAX_LENGTH: number = SCALE_MAX_LENGTH;
   static readonly SENTINEL_MAX_LENGTH: number = SENTINEL_MAX_LENGTH;
+  static readonly VALUE_FILTER_MAX_LENGTH: number = VALUE_FILTER_MAX_LENGTH;
   static readonly defaultOptions = defaultOptions;
+  static readonly Legend = Legend;
+  static readonly palette = palette;
+  static readonly palettes = palettes;
 
   options: InternalOptions;
 
   protected _map: L.Map;
   protected _renderer: Renderer;
+  protected _decoder: TileDecoder;
+  protected _workerPool?: WorkerPool;
+  protected _persistentCache?: PersistentTileCache;
   protected _preloadTileCache?: PreloadTileCache;
+  // the image drawn on tiles that failed to load, per `options.errorTileUrl`
+  protected _errorTileImage?: HTMLImageElement;
+  // the in-flight request for preloading tiles, if any
+  protected _preloadRequest?: PreloadRequest;
+  // controls the in-flight request for updating the active tiles with data from a new URL, if any
+  protected _updateAbortController?: AbortController;
+  // whether the automatic domain has been fitted to any tiles yet
+  protected _autoDomainFitted: boolean;
+  // the color scale the automatic domain was last fitted to, if any
+  protected _fittedColorScale?: Color[];
+  // in 'canvas' mode, where the layer's canvas was last aligned with the map
+  protected _canvasPosition?: CanvasPosition;
+  // the pending request to render the layer's canvas, if any
+  protected _canvasRenderRequest?: number;
+  // number of transitions in progress, which render the layer's canvas themselves
+  protected _activeTransitions: number;
+  // in 'tiles' mode, the scale at which tiles were last rendered (see `_getTileRenderScale`)
+  protected _tileRenderScale: number;
   // We need to define the `_tiles` cache with the same type as in the base class,
   // though our `_tiles` property is actually of type `TileCache`
   protected _tiles: L.InternalTiles;
@@ -136,26 +276,35 @@ export default class GLColorScale extends L.GridLayer {
     // which sets the merged options as `this.options`.
     super(Object.assign({}, defaultOptions, options));
 
+    this._checkSources();
+    this._checkNodataValue();
     this._checkColorScaleAndSentinels();
-
-    const {
-      nodataValue,
-      preloadUrl,
-    } = this.options;
-
-    const tileSize: number = this._tileSizeAsNumber();
-    const renderer = new Renderer(tileSize, nodataValue);
+    this._checkHillshade();
+    this._checkContours();
 
     // Set instance properties.
     Object.assign(this, {
-      _renderer: renderer,
+      _renderer: this._createRenderer(),
+      _decoder: createDecoder(this.options.decoder),
+      _workerPool: WorkerPool.create(this.options.workerUrl, this.options.workers),
+      _persistentCache: this._openPersistentCache(),
       _preloadTileCache: undefined,
+      _errorTileImage: undefined,
+      _preloadRequest: undefined,
+      _updateAbortController: undefined,
+      _autoDomainFitted: false,
+      _canvasPosition: undefined,
+      _canvasRenderRequest: undefined,
+      _activeTransitions: 0,
+      _tileRenderScale: 1,
     });
 
-    this._maybePreload(preloadUrl);
+    this._maybePreload(this._getPreloadSource());
 
     // Listen for 'tileunload' event to remove the tile from the texture.
     this.on('tileunload', this._onTileRemove.bind(this));
+    // Listen for 'load' event to fit the automatic domain, if any, to the loaded tiles.
+    this.on('load', this._onLoad.bind(this));
   }
 
   /**
@@ -166,19 +315,151 @@ export default class GLColorScale extends L.GridLayer {
    * component's state.
    */
   updateOptions(options: Partial<Options>) {
+    const prevSource = this._getDataSource();
+    const prevSourceB = this._getDataSourceB();
+    const prevDecoder = this.options.decoder;
     const {
-      url: prevUrl,
-      colorScale: prevColorScale,
-      sentinelValues: prevSentinelValues,
+      workerUrl: prevWorkerUrl,
+      workers: prevWorkers,
+      persistentCache: prevPersistentCache,
+      renderMode: prevRenderMode,
+      resampling: prevResampling,
+      hillshade: prevHillshade,
+      contours: prevContours,
+      operation: prevOperation,
     } = this.options;
+    const prevColorScaleSettings = this._getColorScaleSettings();
+    const prevNodata = this._getNodataValues();
+    const prevInputNodata = util.nodataValues(this.options.nodataValue);
+    const prevTileSize = this._tileSizeAsNumber();
+    const prevUrlTemplateOptions = pick(this.options, URL_TEMPLATE_OPTIONS);
     L.Util.setOptions(this, options);
+    this._checkSources();
+    this._checkNodataValue();
     this._checkColorScaleAndSentinels();
-    this._maybePreload(this.options.preloadUrl);
-    if (this.options.url !== prevUrl) {
-      this.options.transitions
-      ? this._updateTilesWithTransitions(prevColorScale, prevSentinelValues)
-      : this._updateTiles();
+    this._checkHillshade();
+    this._checkContours();
+    const nodata = this._getNodataValues();
+    const nodataChanged = !util.sameNodataValues(nodata, prevNodata);
+    const inputNodata = util.nodataValues(this.options.nodataValue);
+    const inputNodataChanged = !util.sameNodataValues(inputNodata, prevInputNodata);
+    const tileSize = this._tileSizeAsNumber();
+    const tileSizeChanged = tileSize !== prevTileSize;
+    if (nodataChanged || tileSizeChanged) {
+      // Both are built into the renderer's draw commands and texture atlas, so start afresh.
+      L.DomUtil.remove(this._renderer.canvas);
+      this._renderer.destroy();
+      this._renderer = this._createRenderer();
+    }
+    const { resampling, hillshade, contours } = this.options;
+    const drawingChanged = (
+      resampling !== prevResampling
+      || !isEqual(hillshade, prevHillshade)
+      || !isEqual(contours, prevContours)
+    );
+    if (drawingChanged) {
+      // These only change how tiles are drawn, so the renderer can be kept.
+      this._renderer.setDrawingOptions(resampling, hillshade, contours);
+    }
+    const renderModeChanged = this.options.renderMode !== prevRenderMode;
+    if (nodataChanged || tileSizeChanged || renderModeChanged) {
+      this._attachCanvas();
+    }
+    if (nodataChanged || inputNodataChanged) {
+      // Tiles that failed to load are filled with the old no-data value; fill them with the new one.
+      // Which pixels of an arithmetic layer's inputs have no data may have changed, so combine them anew.
+      this._getActiveTiles().forEach(({ el }) => {
+        if (el.pixelData && el.error) {
+          el.pixelData = util.createNoDataTile(nodata, tileSize);
+        } else if (el.inputsData) {
+          el.pixelData = util.combineTiles(el.inputsData, this.options.operation, inputNodata);
+        }
+      });
+    }
+    if (this.options.workerUrl !== prevWorkerUrl || this.options.workers !== prevWorkers) {
+      // Let the current workers finish their jobs, and send new jobs to a new pool.
+      if (this._workerPool) {
+        this._workerPool.destroy();
+      }
+      this._workerPool = WorkerPool.create(this.options.workerUrl, this.options.workers);
+    }
+    if (this.options.persistentCache !== prevPersistentCache) {
+      this._persistentCache = this._openPersistentCache();
+    }
+    const decoderChanged = this.options.decoder !== prevDecoder;
+    if (decoderChanged) {
+      this._decoder = createDecoder(this.options.decoder);
+    }
+    // Tiles from a different URL template, or of a different size, are different tiles.
+    const urlTemplateChanged = !isEqual(pick(this.options, URL_TEMPLATE_OPTIONS), prevUrlTemplateOptions);
+    // An arithmetic layer's data depend on its second input and its operation as well.
+    const sourceB = this._getDataSourceB();
+    const arithmeticChanged = (
+      sourceB !== prevSourceB
+      || (sourceB !== undefined && this.options.operation !== prevOperation)
+    );
+    if (decoderChanged || urlTemplateChanged || tileSizeChanged || arithmeticChanged) {
+      // Data decoded the old way, fetched for other tiles or combined differently is of no further use.
+      this._preloadTileCache = undefined;
+      if (this._preloadRequest) {
+        this._preloadRequest.abortController.abort();
+        this._preloadRequest = undefined;
+      }
+    }
+    if (tileSizeChanged) {
+      // Tiles of a new size cover different areas, so rebuild the grid and fetch all of them anew.
+      this._rebuildGrid();
+    }
+    this._maybePreload(this._getPreloadSource());
+    // Changing the decoder, the URL template or how an arithmetic layer's data are combined requires
+    // fetching the data again, just like changing the URL (or source). (Tile sources don't use the
+    // URL template.)
+    const urlChanged = (
+      this._getDataSource() !== prevSource
+      || decoderChanged
+      || arithmeticChanged
+      || (urlTemplateChanged && (typeof this._getDataSource() === 'string' || typeof sourceB === 'string'))
+    );
+    if (!urlChanged && (options.autoDomain || options.colorScale || nodataChanged)) {
+      // Fit the new automatic domain settings or color scale to the current data. (With a new URL,
+      // the domain is fitted once the new data arrive.)
+      this._fitAutoDomain(this._getLoadedTilesData());
+    }
+    const colorScaleChanged = !util.sameColorScaleSettings(prevColorScaleSettings, this._getColorScaleSettings());
+    if (colorScaleChanged) {
+      // Notify any listeners (e.g. a legend) of the new color scale.
+      this.fire('colorscalechange', this._getColorScaleSettings());
+    }
+    if (tileSizeChanged) {
+      // The new tiles are rendered as they load.
+      return;
     }
+    if (urlChanged || colorScaleChanged) {
+      this._catchUpdateErrors(
+        this.options.transitions
+        ? this._updateTilesWithTransitions(prevColorScaleSettings, urlChanged)
+        : this._updateTiles(urlChanged),
+      );
+    } else if (nodataChanged || renderModeChanged || drawingChanged) {
+      this._catchUpdateErrors(this._updateTiles(false));
+    }
+  }
+
+  onAdd(map: L.Map) {
+    super.onAdd(map);
+    this._attachCanvas();
+    return this;
+  }
+
+  onRemove(map: L.Map) {
+    if (this._canvasRenderRequest !== undefined) {
+      L.Util.cancelAnimFrame(this._canvasRenderRequest);
+      this._canvasRenderRequest = undefined;
+    }
+    // Leaflet.GridLayer removes the layer's container, and with it the canvas.
+    this._canvasPosition = undefined;
+    super.onRemove(map);
+    return this;
   }
 
   /**
@@ -210,10 +491,34 @@ export default class GLColorScale extends L.GridLayer {
       mousemove,
       contextmenu,
     }, handler => !isUndefined(handler));
+    const gridLayerEvents = (L.GridLayer.prototype.getEvents as () => EventsObject).call(this);
     // Combine events defined on this class with events defined on the parent GridLayer.
     return {
       // Include events from GridLayer.
-      ...(L.GridLayer.prototype.getEvents as () => EventsObject).call(this),
+      ...gridLayerEvents,
+      // Refit the automatic domain, if any, after the map moves, keep the layer's canvas (in
+      // 'canvas' mode) aligned with the map, and re-render resampled tiles (in 'tiles' mode) at the
+      // new zoom.
+      moveend: (event: L.LeafletEvent) => {
+        gridLayerEvents.moveend.call(this, event);
+        this._resetCanvas();
+        this._onMoveEndResampling();
+        this._onMoveEndAutoDomain();
+      },
+      viewreset: (event: L.LeafletEvent) => {
+        gridLayerEvents.viewreset.call(this, event);
+        this._resetCanvas();
+      },
+      zoom: (event: L.LeafletEvent) => {
+        gridLayerEvents.zoom.call(this, event);
+        this._onZoomCanvas();
+      },
+      ...(gridLayerEvents.zoomanim ? {
+        zoomanim: (event: L.LeafletEvent) => {
+          gridLayerEvents.zoomanim.call(this, event);
+          this._onZoomAnimCanvas(event as L.ZoomAnimEvent);
+        },
+      } : {}),
       // Wrap each handler to provide property `pixelValue` on the event object.
       ...mapValues(definedHandlers, val => val && this._wrapMouseEventHandler(val)),
     };
@@ -248,12 +553,7 @@ export default class GLColorScale extends L.GridLayer {
    * occurs (a) when the layer first loads and (b) when panning or zooming the map.
    */
   createTile(coords: TileCoordinates, done: L.DoneCallback): TileElement {
-    const {
-      colorScale,
-      sentinelValues,
-      tileSize,
-      url,
-    } = this.options;
+    const { tileSize } = this.options;
 
     // Create a <canvas> element to contain the rendered image.
     const tileCanvas = L.DomUtil.create('canvas') as TileElement;
@@ -264,33 +564,97 @@ export default class GLColorScale extends L.GridLayer {
       height: tileSize,
     });
 
-    // Retrieve and decode Float-32 PNG.
-    this._fetchTileData(coords, url).then((pixelData) => {
-      // Render in `renderer`'s WebGL context.
-      const [sourceX, sourceY] = this._renderer.renderTile(
-        { coords, pixelData },
-        colorScale,
-        sentinelValues,
-      );
+    // Retrieve and decode the tile.
+    const { signal } = this._startTileRequest(tileCanvas);
+    this._fetchTileData(coords, this._getDataSource(), signal).then((tileDatum) => {
+      const { pixelData, error } = tileDatum;
+      // If the tile has been unloaded, or newer data has been requested for it, drop this data.
+      if (signal.aborted) {
+        done(undefined, tileCanvas);
+        return;
+      }
 
       // Copy pixel data to a property on tile canvas element (for later retrieval).
-      tileCanvas.pixelData = pixelData;
-
-      // Copy contents to tileCanvas.
-      this._copyToTileCanvas(tileCanvas, sourceX, sourceY);
-      done(undefined, tileCanvas);
+      this._setTileData(tileCanvas, tileDatum);
+
+      if (this._canvasPosition) {
+        // Draw the tile in the layer's canvas, along with all the others.
+        this._drawTilePlaceholder(tileCanvas);
+        this._scheduleCanvasRender();
+      } else {
+        // Render in `renderer`'s WebGL context.
+        const scale = this._getTileRenderScale();
+        this._tileRenderScale = scale;
+        const [sourceX, sourceY] = this._renderer.renderTile(
+          { coords, pixelData },
+          this._getColorScaleSettings(),
+          scale,
+        );
+        // Copy contents to tileCanvas.
+        this._copyToTileCanvas(tileCanvas, sourceX, sourceY, scale);
+      }
+      // Leaflet.GridLayer fires the 'tileerror' event if the tile failed to load.
+      done(error, tileCanvas);
     });
 
     return tileCanvas;
   }
 
+  /**
+   * Check that the layer has a URL or tile source, and that any tile sources produce tiles of the
+   * layer's size.
+   */
+  protected _checkSources() {
+    const { url, source, sourceB } = this.options;
+    if (url === undefined && source === undefined) {
+      throw new Error('Either url or source must be given.');
+    }
+    const tileSize = this._tileSizeAsNumber();
+    for (const tileSource of [source, sourceB]) {
+      if (
+        tileSource !== undefined
+        && typeof tileSource !== 'function'
+        && tileSource.tileSize !== undefined
+        && tileSource.tileSize !== tileSize
+      ) {
+        throw new Error(`Tile source's tileSize ${tileSource.tileSize} doesn't match the layer's, ${tileSize}.`);
+      }
+    }
+  }
+
+  /**
+   * Default `nodataValue` to the tile source's, if it isn't given, and check that the no-data values
+   * fit in the shaders' array of them.
+   */
+  protected _checkNodataValue() {
+    const { source } = this.options;
+    if (this.options.nodataValue === undefined) {
+      if (source === undefined || typeof source === 'function' || source.nodataValue === undefined) {
+        throw new Error('nodataValue must be given, unless the source provides one.');
+      }
+      this.options.nodataValue = source.nodataValue;
+    }
+    const { length } = util.nodataValues(this.options.nodataValue).values;
+    if (length > NODATA_MAX_LENGTH) {
+      throw new Error(
+        `Number of no-data values ${length} exceeds the maximum, ${NODATA_MAX_LENGTH}.`,
+      );
+    }
+  }
+
   /**
    * Check invariant: Either `colorScale` or `sentinelValues` must be of non-zero length.
+   * Also check that the scale type can be applied to the color scale, and that the value filter is
+   * well formed.
    */
   protected _checkColorScaleAndSentinels() {
     const {
       colorScale,
       sentinelValues,
+      valueFilter,
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
     } = this.options;
     if (colorScale.length === 0 && sentinelValues.length === 0) {
       throw new Error('Either `colorScale` or `sentinelValues` must be of non-zero length.');
@@ -305,6 +669,273 @@ export default class GLColorScale extends L.GridLayer {
         `Sentinel values length ${sentinelValues.length} exceeds the maximum, ${SENTINEL_MAX_LENGTH}.`,
       );
     }
+    for (const { label, offset, tolerance, min, max } of sentinelValues) {
+      if (offset === undefined && min === undefined && max === undefined) {
+        throw new Error(`Sentinel value '${label}' must have an \`offset\` or a \`min\` and/or \`max\`.`);
+      }
+      if (min !== undefined && max !== undefined && min > max) {
+        throw new Error(`Sentinel value '${label}' must not have \`min\` greater than \`max\`.`);
+      }
+      if (tolerance !== undefined && !(tolerance >= 0)) {
+        throw new Error(`Sentinel value '${label}' must have a non-negative \`tolerance\`.`);
+      }
+    }
+    // The shaders assume that each value matches at most one sentinel value.
+    const sentinelRanges = sortBy(sentinelValues.map(util.sentinelValueRange), ([lower]) => lower);
+    if (sentinelRanges.some(([lower], index) => index > 0 && lower <= sentinelRanges[index - 1][1])) {
+      throw new Error('The ranges of values matched by sentinel values must not overlap.');
+    }
+    const valueRanges = util.valueFilterRanges(valueFilter);
+    if (valueRanges.length > VALUE_FILTER_MAX_LENGTH) {
+      throw new Error(
+        `Value filter length ${valueRanges.length} exceeds the maximum, ${VALUE_FILTER_MAX_LENGTH}.`,
+      );
+    }
+    if (valueRanges.some(({ min, max }) => min !== undefined && max !== undefined && min > max)) {
+      throw new Error('Value filter ranges must not have `min` greater than `max`.');
+    }
+    if (scaleType === 'log' && colorScale.some(({ offset }) => offset <= 0)) {
+      throw new Error('Color stop offsets must be positive when `scaleType` is \'log\'.');
+    }
+    if (scaleType === 'pow' && !(scaleExponent > 0)) {
+      throw new Error(`Scale exponent ${scaleExponent} must be positive.`);
+    }
+    if (
+      colorScaleMode === 'quantize'
+      && colorScale.length > 0
+      && !(colorScale[0].offset < colorScale[colorScale.length - 1].offset)
+    ) {
+      throw new Error('The first color stop offset must be less than the last when `colorScaleMode` is \'quantize\'.');
+    }
+  }
+
+  /**
+   * Check that the light of the relief shading, if any, is above the horizon, and that its strength
+   * is between 0 and 1.
+   */
+  protected _checkHillshade() {
+    const { hillshade } = this.options;
+    if (!hillshade) {
+      return;
+    }
+    const { altitude, strength } = hillshade;
+    if (altitude !== undefined && !(altitude > 0 && altitude <= 90)) {
+      throw new Error(`Hillshade altitude ${altitude} must be greater than 0 and at most 90 degrees.`);
+    }
+    if (strength !== undefined && !(strength >= 0 && strength <= 1)) {
+      throw new Error(`Hillshade strength ${strength} must be between 0 and 1.`);
+    }
+  }
+
+  /**
+   * Check that the contours fit in the shaders' arrays of them, and that their colors and widths are
+   * valid.
+   */
+  protected _checkContours() {
+    const { contours } = this.options;
+    if (contours.length > CONTOURS_MAX_LENGTH) {
+      throw new Error(`Number of contours ${contours.length} exceeds the maximum, ${CONTOURS_MAX_LENGTH}.`);
+    }
+    for (const { value, color, width } of contours) {
+      if (color !== undefined) {
+        // Throws if the color can't be parsed.
+        util.colorStringToWebGLFloats(color);
+      }
+      if (width !== undefined && !(width > 0)) {
+        throw new Error(`Contour ${value} must have a positive \`width\`.`);
+      }
+    }
+  }
+
+  /**
+   * Create a renderer for the current tile size, no-data values and drawing options.
+   */
+  protected _createRenderer(): Renderer {
+    const { resampling, hillshade, contours } = this.options;
+    return new Renderer(
+      this._tileSizeAsNumber(),
+      this._getNodataValues(),
+      resampling,
+      hillshade,
+      contours,
+    );
+  }
+
+  /**
+   * Gather the options that determine how pixel values are colorized.
+   */
+  protected _getColorScaleSettings(): ColorScaleSettings {
+    const {
+      colorScale,
+      sentinelValues,
+      valueFilter,
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
+      interpolation,
+    } = this.options;
+    return {
+      colorScale,
+      sentinelValues,
+      valueFilter,
+      colorScaleMode,
+      scaleType,
+      scaleExponent,
+      interpolation,
+    };
+  }
+
+  /**
+   * Remove all tiles and rebuild Leaflet.GridLayer's grid (e.g. for a new tile size), as Leaflet does
+   * when the map's CRS changes. Tiles are then created anew for the current view.
+   */
+  protected _rebuildGrid() {
+    if (this._map) {
+      this._invalidateAll();
+      this._resetView();
+    }
+  }
+
+  /**
+   * In 'canvas' mode, show the renderer's canvas in the layer's container, aligned with the map.
+   * Otherwise, keep it offscreen.
+   */
+  protected _attachCanvas() {
+    const { canvas } = this._renderer;
+    const container = this.getContainer();
+    if (this.options.renderMode === 'canvas' && this._map && container) {
+      L.DomUtil.addClass(canvas, 'gl-tilelayer-canvas');
+      if (this._zoomAnimated) {
+        L.DomUtil.addClass(canvas, 'leaflet-zoom-animated');
+      }
+      container.appendChild(canvas);
+      this._resetCanvas(true);
+    } else {
+      L.DomUtil.remove(canvas);
+      this._canvasPosition = undefined;
+    }
+  }
+
+  /**
+   * Align the layer's canvas with the map's viewport, then render the tiles into it. Does nothing
+   * unless the layer is in 'canvas' mode, or (with `force`) is entering it.
+   */
+  protected _resetCanvas(force: boolean = false) {
+    const map = this._map;
+    if (!this._canvasPosition && !force) {
+      return;
+    }
+    const origin = map.containerPointToLayerPoint([0, 0]).round();
+    this._canvasPosition = {
+      origin,
+      pixelOrigin: map.getPixelOrigin(),
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+    };
+    L.DomUtil.setPosition(this._renderer.canvas, origin);
+    this._renderCanvas();
+  }
+
+  /**
+   * Render all active tiles that have data into the layer's canvas, unless a transition is doing so.
+   */
+  protected _renderCanvas() {
+    if (!this._canvasPosition || this._activeTransitions > 0) {
+      return;
+    }
+    const tiles = this._getActiveTiles().filter(({ el }) => el.pixelData);
+    this._renderer.renderTiles(
+      this._getCurrentTilesData(tiles),
+      this._getColorScaleSettings(),
+      this._getCanvasLayoutFunction(tiles),
+    );
+  }
+
+  /**
+   * Render the layer's canvas on the next animation frame, so that tiles loading together are drawn
+   * together.
+   */
+  protected _scheduleCanvasRender() {
+    if (!this._canvasPosition || this._canvasRenderRequest !== undefined) {
+      return;
+    }
+    this._canvasRenderRequest = L.Util.requestAnimFrame(() => {
+      this._canvasRenderRequest = undefined;
+      this._renderCanvas();
+    });
+  }
+
+  /**
+   * In 'canvas' mode, a function laying out the given tiles in the layer's canvas, where they
+   * appear on the map. Otherwise, the renderer lays them out side by side: at `tileScale` times
+   * their size if given, or else (with `undefined`) at their own size. The layout is computed anew
+   * for each frame of a transition, as the map may move in the meantime.
+   */
+  protected _getCanvasLayoutFunction(
+    tiles: GridLayerTile[],
+    tileScale: number = 1,
+  ): (() => CanvasLayout) | undefined {
+    if (!this._canvasPosition) {
+      return tileScale === 1 ? undefined : () => this._renderer.layoutTilesSideBySide(tiles.length, tileScale);
+    }
+    const tileSize = this._tileSizeAsNumber();
+    return () => {
+      const map = this._map;
+      const { origin, pixelOrigin, zoom } = this._canvasPosition as CanvasPosition;
+      const { x: width, y: height } = map.getSize();
+      // Tiles retained from other zoom levels are drawn at the scale of the current one.
+      const scales = tiles.map(({ coords }) => map.getZoomScale(zoom, coords.z));
+      return {
+        canvasSize: [width, height] as Pair<number>,
+        canvasCoordinates: tiles.map(({ coords }, index) => {
+          const { x, y } = L.point(coords.x, coords.y)
+            .multiplyBy(tileSize * scales[index])
+            .subtract(pixelOrigin)
+            .subtract(origin);
+          return [x, y] as Pair<number>;
+        }),
+        scales,
+      };
+    };
+  }
+
+  /**
+   * Handler for the map's 'zoomanim' event: scale and move the layer's canvas along with the zoom
+   * animation, as Leaflet does with tiles.
+   */
+  protected _onZoomAnimCanvas({ center, zoom }: L.ZoomAnimEvent) {
+    if (this._canvasPosition) {
+      this._updateCanvasTransform(center, zoom);
+    }
+  }
+
+  /**
+   * Handler for the map's 'zoom' event, which is fired continuously while pinch-zooming.
+   */
+  protected _onZoomCanvas() {
+    if (this._canvasPosition) {
+      this._updateCanvasTransform(this._map.getCenter(), this._map.getZoom());
+    }
+  }
+
+  /**
+   * Transform the layer's canvas to show the map at the given center and zoom, until it's next
+   * rendered. (adapted from `_updateTransform` in L.Renderer (v1.4.0))
+   */
+  protected _updateCanvasTransform(center: L.LatLng, zoom: number) {
+    const map = this._map;
+    const { canvas } = this._renderer;
+    const { center: canvasCenter, zoom: canvasZoom } = this._canvasPosition as CanvasPosition;
+    const scale = map.getZoomScale(zoom, canvasZoom);
+    const position = L.DomUtil.getPosition(canvas);
+    const viewHalf = map.getSize().multiplyBy(0.5);
+    const centerOffset = map.project(center, zoom).subtract(map.project(canvasCenter, zoom));
+    const topLeftOffset = viewHalf.multiplyBy(-scale).add(position).add(viewHalf).subtract(centerOffset);
+    if (L.Browser.any3d) {
+      L.DomUtil.setTransform(canvas, topLeftOffset, scale);
+    } else {
+      L.DomUtil.setPosition(canvas, topLeftOffset);
+    }
   }
 
   /**
@@ -337,126 +968,409 @@ export default class GLColorScale extends L.GridLayer {
     if (!L.Browser.android) {
       tile.onload = noop;
     }
+    // Cancel the tile's request for data, if still in flight.
+    if (tile.abortController) {
+      tile.abortController.abort();
+    }
     this._renderer.removeTile(coords);
+    // Erase the tile from the layer's canvas, if any.
+    this._scheduleCanvasRender();
   }
 
   /**
-   * Redraw all active tiles.
+   * Redraw all active tiles. If the URL has changed, fetch new data first; otherwise redraw the
+   * tiles' current data (e.g. with a new color scale).
    */
-  protected async _updateTiles() {
-    const activeTiles: GridLayerTile[] = this._getActiveTiles();
-
-    // Fetch data from the new URL.
-    const tilesData: TileDatum[] = await this._getTilesData(activeTiles);
+  protected async _updateTiles(urlChanged: boolean) {
+    const activeTiles: GridLayerTile[] = this._getTilesToUpdate(urlChanged);
+
+    // Fetch data from the new URL, if it has changed.
+    const signal = urlChanged ? this._startUpdateRequest(activeTiles) : undefined;
+    const tilesData: TileDatum[] = (
+      signal
+      ? await this._getTilesData(activeTiles, signal)
+      : this._getCurrentTilesData(activeTiles)
+    );
+    // If a newer update has started in the meantime, leave the tiles to it.
+    if (signal && signal.aborted) {
+      return;
+    }
 
-    const { colorScale, sentinelValues = [] } = this.options;
+    // Fit the automatic domain, if any, to the new data.
+    if (urlChanged && this._fitAutoDomain(tilesData)) {
+      this.fire('colorscalechange', this._getColorScaleSettings());
+    }
 
     // Render using the new data.
+    const scale = this._getTileRenderScale();
+    this._tileRenderScale = scale;
     const canvasCoordinates = this._renderer.renderTiles(
       tilesData,
-      colorScale,
-      sentinelValues,
+      this._getColorScaleSettings(),
+      this._getCanvasLayoutFunction(activeTiles, scale),
     );
 
     // Update tiles.
     canvasCoordinates.forEach(([sourceX, sourceY], index) => {
-      // Copy rendered pixels to the tile canvas.
+      // Copy new pixel data.
       const tile = activeTiles[index];
-      this._copyToTileCanvas(tile.el, sourceX, sourceY);
+      this._setTileData(tile.el, tilesData[index]);
 
-      // Copy new pixel data.
-      tile.el.pixelData = tilesData[index].pixelData;
+      // Copy rendered pixels to the tile canvas (unless they're in the layer's canvas).
+      if (this._canvasPosition) {
+        this._drawTilePlaceholder(tile.el);
+      } else {
+        this._copyToTileCanvas(tile.el, sourceX, sourceY, scale);
+      }
     });
   }
 
+  /**
+   * Report an error from an update of the tiles, which isn't awaited, with the 'updateerror' event,
+   * rather than leaving it unhandled.
+   */
+  protected _catchUpdateErrors(update: Promise<void>) {
+    update.catch((error: Error) => this.fire('updateerror', { error }));
+  }
+
   /**
    * Redraw all active tiles, animating the transition over a time interval specified in
    * `options.transitionTimeMs`.
    */
   protected async _updateTilesWithTransitions(
-    prevColorScale: Color[],
-    prevSentinelValues: SentinelValue[],
+    prevColorScaleSettings: ColorScaleSettings,
+    urlChanged: boolean,
   ) {
-    const activeTiles: GridLayerTile[] = this._getActiveTiles();
+    const activeTiles: GridLayerTile[] = this._getTilesToUpdate(urlChanged);
 
-    const prevTilesData: TileDatum[] = activeTiles.map(({ coords, el }) => ({
-      coords,
-      pixelData: el.pixelData as Uint8Array,
-    }));
+    // Tiles still loading have no data yet; they transition from their new data.
+    const prevPixelData = activeTiles.map(({ el }) => el.pixelData);
 
-    // Fetch data from the new URL.
-    const newTilesData: TileDatum[] = await this._getTilesData(activeTiles);
+    // Fetch data from the new URL, if it has changed.
+    const signal = urlChanged ? this._startUpdateRequest(activeTiles) : undefined;
+    const newTilesData: TileDatum[] = (
+      signal
+      ? await this._getTilesData(activeTiles, signal)
+      : this._getCurrentTilesData(activeTiles)
+    );
+    // If a newer update has started in the meantime, leave the tiles to it.
+    if (signal && signal.aborted) {
+      return;
+    }
+    const prevTilesData: TileDatum[] = newTilesData.map((tileDatum, index) => ({
+      ...tileDatum,
+      pixelData: prevPixelData[index] || tileDatum.pixelData,
+    }));
 
     // Copy new pixel data to tiles.
     activeTiles.forEach((tile, index) => {
-      tile.el.pixelData = newTilesData[index].pixelData;
+      this._setTileData(tile.el, newTilesData[index]);
+      if (this._canvasPosition) {
+        this._drawTilePlaceholder(tile.el);
+      }
     });
 
-    const {
-      colorScale: newColorScale,
-      sentinelValues: newSentinelValues = [],
-      transitionTimeMs,
-    } = this.options;
+    // Fit the automatic domain, if any, to the new data.
+    if (urlChanged && this._fitAutoDomain(newTilesData)) {
+      this.fire('colorscalechange', this._getColorScaleSettings());
+    }
+
+    const { transitionTimeMs } = this.options;
+    const newColorScaleSettings = this._getColorScaleSettings();
 
     // This function will be passed to the Renderer, which will call it after rendering a frame
-    // in its offscreen <canvas>.
+    // in its offscreen <canvas>. (In 'canvas' mode, the frame is already on screen.)
+    const inLayerCanvas = Boolean(this._canvasPosition);
+    const scale = this._getTileRenderScale();
+    this._tileRenderScale = scale;
+    const getLayout = this._getCanvasLayoutFunction(activeTiles, scale);
     const onFrameRendered = (canvasCoordinates: Array<Pair<number>>) => {
+      if (inLayerCanvas) {
+        return;
+      }
       canvasCoordinates.forEach(([sourceX, sourceY], index) => {
         // Copy rendered pixels to the tile <canvas>.
         const tile = activeTiles[index];
-        this._copyToTileCanvas(tile.el, sourceX, sourceY);
+        this._copyToTileCanvas(tile.el, sourceX, sourceY, scale);
       });
     };
 
     // Renderer hooks the render calls to requestAnimationFrame, calling `onFrameRendered` after each is drawn.
-    if (newColorScale === prevColorScale) {
-      this._renderer.renderTilesWithTransition(
-        prevTilesData,
-        newTilesData,
-        newColorScale,
-        newSentinelValues,
-        transitionTimeMs,
-        onFrameRendered,
-      );
-    } else {
-      this._renderer.renderTilesWithTransitionAndNewColorScale(
-        prevTilesData,
-        newTilesData,
-        prevColorScale,
-        newColorScale,
-        prevSentinelValues,
-        newSentinelValues,
-        transitionTimeMs,
-        onFrameRendered,
+    this._activeTransitions += 1;
+    try {
+      if (util.sameColorScaleSettings(newColorScaleSettings, prevColorScaleSettings)) {
+        await this._renderer.renderTilesWithTransition(
+          prevTilesData,
+          newTilesData,
+          newColorScaleSettings,
+          transitionTimeMs,
+          onFrameRendered,
+          getLayout,
+        );
+      } else {
+        await this._renderer.renderTilesWithTransitionAndNewColorScale(
+          prevTilesData,
+          newTilesData,
+          prevColorScaleSettings,
+          newColorScaleSettings,
+          transitionTimeMs,
+          onFrameRendered,
+          getLayout,
+        );
+      }
+    } finally {
+      this._activeTransitions -= 1;
+    }
+    // Draw any tiles that loaded during the transition.
+    this._scheduleCanvasRender();
+  }
+
+  /**
+   * Handler function for the 'load' event. Leaflet.GridLayer fires this event (without a URL) when
+   * all visible tiles have loaded. This component also fires it (with a URL or tile source) after
+   * fetching tiles in `updateOptions` or for preloading; those tiles are handled elsewhere.
+   */
+  protected _onLoad({ url, source }: { url?: string, source?: TileSource }) {
+    const {
+      autoDomain,
+      contours,
+      hillshade,
+      resampling,
+    } = this.options;
+    const firedByGridLayer = url === undefined && source === undefined;
+    const prevColorScaleSettings = this._getColorScaleSettings();
+    if (firedByGridLayer && autoDomain && (autoDomain.updateOnMove || !this._autoDomainFitted)) {
+      this._refitAutoDomain();
+    }
+    if (
+      firedByGridLayer
+      && (hillshade || resampling !== 'nearest' || contours.length > 0)
+      && !this._canvasPosition
+      && util.sameColorScaleSettings(prevColorScaleSettings, this._getColorScaleSettings())
+    ) {
+      // Tiles rendered as they loaded were shaded and resampled without the neighbors that loaded
+      // after them, so render them again together (unless the new automatic domain already did).
+      this._catchUpdateErrors(this._updateTiles(false));
+    }
+  }
+
+  /**
+   * In 'tiles' mode, the scale at which to render tiles. When resampling or drawing contours, tiles
+   * displayed larger than their size (past `maxNativeZoom`) are rendered at about the scale at which
+   * they're displayed, so that their interpolated values (or thin lines) aren't merely scaled up by
+   * the browser. The scale is a whole number, at most RESAMPLING_MAX_TILE_SCALE.
+   */
+  protected _getTileRenderScale(): number {
+    const { resampling, contours } = this.options;
+    if ((resampling === 'nearest' && contours.length === 0) || this._canvasPosition || !this._map) {
+      return 1;
+    }
+    const scale = Math.round(this._map.getZoomScale(this._map.getZoom(), this._tileZoom as number));
+    return Math.min(Math.max(scale, 1), RESAMPLING_MAX_TILE_SCALE);
+  }
+
+  /**
+   * Render the tiles again after the map moves, if the zoom has changed the scale at which they
+   * should be rendered. (Zooming past `maxNativeZoom` doesn't load new tiles.)
+   */
+  protected _onMoveEndResampling() {
+    if (this._getTileRenderScale() !== this._tileRenderScale) {
+      this._catchUpdateErrors(this._updateTiles(false));
+    }
+  }
+
+  /**
+   * Refit the automatic domain, if it should follow the map, after the map moves. If new tiles are
+   * loading, wait for the 'load' event instead.
+   */
+  protected _onMoveEndAutoDomain() {
+    const { autoDomain } = this.options;
+    if (autoDomain && autoDomain.updateOnMove && !this.isLoading()) {
+      this._refitAutoDomain();
+    }
+  }
+
+  /**
+   * Fit the automatic domain to the tiles currently shown, and redraw them if the color scale changed.
+   */
+  protected _refitAutoDomain() {
+    const prevColorScaleSettings = this._getColorScaleSettings();
+    if (this._fitAutoDomain(this._getLoadedTilesData())) {
+      this.fire('colorscalechange', this._getColorScaleSettings());
+      this._catchUpdateErrors(
+        this.options.transitions
+        ? this._updateTilesWithTransitions(prevColorScaleSettings, false)
+        : this._updateTiles(false),
       );
     }
   }
 
+  /**
+   * Fit the color scale to the values of the pixels in the given tiles according to
+   * `options.autoDomain`, skipping the no-data value and sentinel values. With the 'minmax' and
+   * 'percentile' methods, the color stops are moved to span the computed domain; with the 'quantile'
+   * method, they are moved to quantile breaks, so that classes (or the segments between stops) hold
+   * equal numbers of pixels.
+   *
+   * Fires the 'autodomain' event with statistics on the data, and returns whether the color scale
+   * changed. The color scale is left alone if the data can't be spread across it (e.g. when every
+   * pixel has the same value).
+   */
+  protected _fitAutoDomain(tilesData: TileDatum[]): boolean {
+    const {
+      autoDomain,
+      colorScale,
+      colorScaleMode,
+      sentinelValues,
+      scaleType,
+      scaleExponent,
+    } = this.options;
+    if (!autoDomain || colorScale.length === 0) {
+      return false;
+    }
+    const pixelValues = util.collectPixelValues(
+      tilesData.map(({ pixelData }) => pixelData),
+      this._getNodataValues(),
+      sentinelValues,
+      scaleType,
+    );
+    if (pixelValues.length === 0) {
+      return false;
+    }
+    this._autoDomainFitted = true;
+
+    const {
+      method = 'minmax',
+      percentiles = [2, 98],
+    } = autoDomain;
+    const quantile = (p: number) => util.quantileSorted(pixelValues, p);
+    const lastIndex = colorScale.length - 1;
+    const fittedColorScale: Color[] = (
+      method === 'quantile' && colorScaleMode !== 'quantize'
+      ? colorScale.map((stop, index) => ({
+        ...stop,
+        offset: quantile(
+          colorScaleMode === 'continuous' ? index / Math.max(lastIndex, 1)
+          // A threshold stop is the upper bound of its class; a stepped stop is the lower bound.
+          : colorScaleMode === 'threshold' ? (index + 1) / colorScale.length
+          : index / colorScale.length,
+        ),
+      }))
+      : util.rescaleColorScale(
+        colorScale,
+        method === 'percentile'
+        ? [quantile(percentiles[0] / 100), quantile(percentiles[1] / 100)]
+        : [pixelValues[0], pixelValues[pixelValues.length - 1]],
+        scaleType,
+        scaleExponent,
+      )
+    );
+
+    const offsets = fittedColorScale.map(({ offset }) => offset);
+    const sum = pixelValues.reduce((total, value) => total + value, 0);
+    const statistics: DomainStatistics = {
+      count: pixelValues.length,
+      min: pixelValues[0],
+      max: pixelValues[pixelValues.length - 1],
+      mean: sum / pixelValues.length,
+      domain: [offsets[0], offsets[lastIndex]],
+      offsets,
+    };
+    this.fire('autodomain', statistics);
+
+    const ascending = offsets.every((offset, index) => index === 0 || offset > offsets[index - 1]);
+    const changed = colorScale.some(({ offset }, index) => offset !== offsets[index]);
+    if (!ascending) {
+      return false;
+    }
+    // If fitting gives the same color scale as last time (as when `updateOptions` is given the same
+    // color scale or automatic domain settings again), keep the one already fitted, as color scales
+    // are compared by identity.
+    const prevFittedColorScale = this._fittedColorScale;
+    if (prevFittedColorScale && util.sameColorScale(prevFittedColorScale, fittedColorScale)) {
+      this.options.colorScale = prevFittedColorScale;
+    } else if (changed) {
+      this.options.colorScale = fittedColorScale;
+      this._fittedColorScale = fittedColorScale;
+    }
+    return this.options.colorScale !== colorScale;
+  }
+
+  /**
+   * The source of the layer's data: `options.source` if given, otherwise `options.url`.
+   */
+  protected _getDataSource(): DataSource {
+    const { source, url } = this.options;
+    return source || url as string;
+  }
+
+  /**
+   * The source of an arithmetic layer's second input: `options.sourceB` if given, otherwise
+   * `options.urlB`. It's `undefined` if the layer isn't an arithmetic layer.
+   */
+  protected _getDataSourceB(): DataSource | undefined {
+    const { sourceB, urlB } = this.options;
+    return sourceB || urlB;
+  }
+
+  /**
+   * The no-data values of the layer's tile data, per `options.nodataValue`. An arithmetic layer's
+   * combined data have NaN wherever there's no data, so that's its only no-data value: a valid result
+   * equal to one of its inputs' no-data values isn't mistaken for one.
+   */
+  protected _getNodataValues(): NodataValues {
+    if (this._getDataSourceB() !== undefined) {
+      return { values: [], nan: true };
+    }
+    return util.nodataValues(this.options.nodataValue);
+  }
+
+  /**
+   * The source of the data to preload, if any: `options.preloadSource` if given, otherwise
+   * `options.preloadUrl`.
+   */
+  protected _getPreloadSource(): DataSource | undefined {
+    const { preloadSource, preloadUrl } = this.options;
+    return preloadSource || preloadUrl;
+  }
+
   /**
    * Preload tiles if it makes sense to do so.
    */
-  protected _maybePreload(preloadUrl?: string) {
+  protected _maybePreload(preloadSource?: DataSource) {
+    // Cancel any preloading still in flight for a URL or source that's no longer wanted.
+    if (this._preloadRequest && this._preloadRequest.source !== preloadSource) {
+      this._preloadRequest.abortController.abort();
+      this._preloadRequest = undefined;
+    }
     if (
-      // Preload tiles if a preloadUrl is given and...
-      preloadUrl && (
+      // Preload tiles if a preload URL or source is given, it isn't being preloaded already, and...
+      preloadSource && !this._preloadRequest && (
         // either the preload cache is empty
         !this._preloadTileCache
-        // or its url is out of date.
-        || this._preloadTileCache.url !== preloadUrl
+        // or its source is out of date.
+        || this._preloadTileCache.source !== preloadSource
       )
     ) {
-      this._preloadTiles(preloadUrl);
+      this._preloadTiles(preloadSource);
     }
   }
 
   /**
-   * Load tiles from the given URL and store them in the preload cache.
+   * Load tiles from the given URL or tile source and store them in the preload cache.
    */
-  protected async _preloadTiles(url: string) {
+  protected async _preloadTiles(source: DataSource) {
+    const abortController = new AbortController();
+    this._preloadRequest = { source, abortController };
+
     const activeTiles: GridLayerTile[] = this._getActiveTiles();
-    const tilesData: TileDatum[] = await this._fetchTilesData(activeTiles, url);
+    const tilesData: TileDatum[] = await this._fetchTilesData(activeTiles, source, abortController.signal);
+    if (abortController.signal.aborted) {
+      return;
+    }
+    this._preloadRequest = undefined;
     this._preloadTileCache = {
-      url,
+      source,
       tiles: tilesData,
     };
   }
@@ -475,13 +1389,44 @@ export default class GLColorScale extends L.GridLayer {
   }
 
   /**
-   * Retrieve pixel data for the given tiles, either from the preload cache or from the server.
+   * The active tiles to update. With new data to fetch, that's all of them. Otherwise, only those
+   * that have finished loading can be redrawn; the others are drawn as they load.
+   */
+  protected _getTilesToUpdate(urlChanged: boolean): GridLayerTile[] {
+    const activeTiles = this._getActiveTiles();
+    return urlChanged ? activeTiles : activeTiles.filter(({ el }) => el.pixelData);
+  }
+
+  /**
+   * Collect the pixel data currently held by the given tiles, which must have finished loading.
+   */
+  protected _getCurrentTilesData(tiles: GridLayerTile[]): TileDatum[] {
+    return tiles.map(({ coords, el }) => ({
+      coords,
+      pixelData: el.pixelData as Uint8Array,
+      inputsData: el.inputsData,
+      error: el.error,
+    }));
+  }
+
+  /**
+   * Collect the pixel data of the tiles in the current view that have finished loading.
    */
-  protected async _getTilesData(tiles: GridLayerTile[]): Promise<TileDatum[]> {
+  protected _getLoadedTilesData(): TileDatum[] {
+    return this._getCurrentTilesData(
+      this._getActiveTiles().filter(({ current, el }) => current && el.pixelData),
+    );
+  }
+
+  /**
+   * Retrieve pixel data for the given tiles, either from the preload cache or from the server (or
+   * tile source).
+   */
+  protected async _getTilesData(tiles: GridLayerTile[], signal: AbortSignal): Promise<TileDatum[]> {
     const preloadTileCache: PreloadTileCache | undefined = this._preloadTileCache;
     if (
       preloadTileCache
-      && this.options.url === preloadTileCache.url
+      && this._getDataSource() === preloadTileCache.source
       && util.sameTiles(
         preloadTileCache.tiles.map(({ coords }) => coords),
         tiles.map(({ coords }) => coords),
@@ -491,34 +1436,205 @@ export default class GLColorScale extends L.GridLayer {
       this._preloadTileCache = undefined;
       return Promise.resolve(preloadTileCache.tiles);
     } else {
-      return this._fetchTilesData(tiles, this.options.url);
+      return this._fetchTilesData(tiles, this._getDataSource(), signal);
     }
   }
 
   /**
-   * Fetch pixel data for the supplied tiles from the supplied URL.
+   * Fetch pixel data for the supplied tiles from the supplied URL or tile source.
    */
-  protected async _fetchTilesData(tiles: GridLayerTile[], url: string): Promise<TileDatum[]> {
-    const pixelData = await Promise.all(tiles.map(({ coords }) => this._fetchTileData(coords, url)));
+  protected async _fetchTilesData(
+    tiles: GridLayerTile[],
+    source: DataSource,
+    signal: AbortSignal,
+  ): Promise<TileDatum[]> {
+    const tilesData = await Promise.all(tiles.map(({ coords }) => this._fetchTileData(coords, source, signal)));
+
+    if (!signal.aborted) {
+      // Report any tiles that failed to load, as Leaflet.GridLayer does for the tiles it creates.
+      tilesData.forEach(({ coords, error }, index) => {
+        if (error) {
+          this.fire('tileerror', { error, tile: tiles[index].el, coords });
+        }
+      });
+      // Fire the 'load' event to notify any listeners that the tiles have finished loading.
+      this.fire('load', typeof source === 'string' ? { url: source } : { source });
+    }
 
-    // Fire the 'load' event to notify any listeners that the tiles have finished loading.
-    this.fire('load', { url });
+    return tilesData;
+  }
 
-    return zipWith<GridLayerTile | Uint8Array, TileDatum>(
-      tiles,
-      pixelData,
-      ({ coords }: GridLayerTile, data: Uint8Array) => ({
+  /**
+   * Start a request for a tile's pixel data, cancelling any request for it still in flight, whose
+   * data would be out of date.
+   */
+  protected _startTileRequest(tile: TileElement): AbortController {
+    if (tile.abortController) {
+      tile.abortController.abort();
+    }
+    tile.abortController = new AbortController();
+    return tile.abortController;
+  }
+
+  /**
+   * Start an update of the given tiles with data from a new URL. This cancels any update still in
+   * flight, as well as the tiles' own requests for data from the old URL.
+   */
+  protected _startUpdateRequest(tiles: GridLayerTile[]): AbortSignal {
+    if (this._updateAbortController) {
+      this._updateAbortController.abort();
+    }
+    tiles.forEach(({ el }) => {
+      if (el.abortController) {
+        el.abortController.abort();
+      }
+    });
+    this._updateAbortController = new AbortController();
+    return this._updateAbortController.signal;
+  }
+
+  /**
+   * Fetch pixel data for an individual tile from the given URL or tile source. For an arithmetic
+   * layer, the tile's data from its second input are fetched too, and the two are combined per
+   * `options.operation`. If either input fails to load, the tile's data are no-data values, and the
+   * error is included.
+   */
+  protected _fetchTileData(
+    coords: TileCoordinates,
+    source: DataSource,
+    signal: AbortSignal,
+  ): Promise<TileDatum> {
+    const sourceB = this._getDataSourceB();
+    if (sourceB === undefined) {
+      return this._fetchInputTileData(coords, source, signal);
+    }
+    return Promise.all([
+      this._fetchInputTileData(coords, source, signal),
+      this._fetchInputTileData(coords, sourceB, signal),
+    ]).then(([a, b]) => {
+      const error = a.error || b.error;
+      if (error) {
+        return { coords, pixelData: util.createNoDataTile(this._getNodataValues(), this._tileSizeAsNumber()), error };
+      }
+      const inputsData: Pair<Uint8Array> = [a.pixelData, b.pixelData];
+      return {
         coords,
-        pixelData: data,
+        pixelData: util.combineTiles(inputsData, this.options.operation, util.nodataValues(this.options.nodataValue)),
+        inputsData,
+      };
+    });
+  }
+
+  /**
+   * Fetch pixel data for an individual tile from the given URL, using `options.fetchTile`, or get
+   * them from the given tile source. The request is cancelled if `signal` is aborted. If the tile
+   * fails to load, its data are no-data values, and the error is included.
+   */
+  protected _fetchInputTileData(
+    coords: TileCoordinates,
+    source: DataSource,
+    signal: AbortSignal,
+  ): Promise<TileDatum> {
+    const { nodataValue } = this.options;
+    const tileSize = this._tileSizeAsNumber();
+    const pixelData: Promise<Uint8Array> = (
+      typeof source === 'string'
+      ? this._fetchUrlTileData(coords, this.getTileUrl(coords, source), signal)
+      : util.getSourceTile(source, coords, signal, tileSize)
+    );
+    return pixelData.then(
+      (data) => ({ coords, pixelData: data }),
+      (error: TileError) => ({
+        coords,
+        pixelData: util.createNoDataTile(util.nodataValues(nodataValue), tileSize),
+        error,
       }),
     );
   }
 
   /**
-   * Fetch pixel data for an individual tile from the given URL.
+   * Fetch and decode the tile at the given URL, in a worker if possible. The tile is looked up in the
+   * persistent cache, if any, before fetching, and stored in it after decoding.
+   */
+  protected async _fetchUrlTileData(coords: TileCoordinates, url: string, signal: AbortSignal): Promise<Uint8Array> {
+    const { decoder } = this.options;
+    const tileSize = this._tileSizeAsNumber();
+
+    // Tiles decoded by a custom function aren't cached, as the function may have changed since.
+    const cache = typeof decoder === 'function' ? undefined : this._persistentCache;
+    const decoderKey = JSON.stringify(decoder);
+    if (cache) {
+      const cachedData = await cache.get(url, decoderKey);
+      if (cachedData && cachedData.byteLength === tileSize * tileSize * BYTES_PER_WORD) {
+        return cachedData;
+      }
+    }
+
+    const workerPool = this._workerPool && this._workerPool.available ? this._workerPool : undefined;
+    const pixelData = await this._fetchAndDecodeTile(coords, url, signal, workerPool).catch((error: TileError) => {
+      // If no worker could handle the tile (e.g. because the worker script failed to load), handle it
+      // on the main thread instead.
+      if (workerPool && WorkerPool.isWorkerFailure(error.cause) && !signal.aborted) {
+        return this._fetchAndDecodeTile(coords, url, signal);
+      }
+      throw error;
+    });
+    if (cache) {
+      cache.put(url, decoderKey, pixelData);
+    }
+    return pixelData;
+  }
+
+  /**
+   * Fetch and decode the tile at the given URL. Given a worker pool, one worker fetches and decodes
+   * it. Functions can't be sent to workers, though, so a custom `fetchTile` (or `retry.shouldRetry`)
+   * runs on the main thread, with only the decoding in a worker, and a custom `decoder` runs on the
+   * main thread along with the fetching.
+   */
+  protected _fetchAndDecodeTile(
+    coords: TileCoordinates,
+    url: string,
+    signal: AbortSignal,
+    workerPool?: WorkerPool,
+  ): Promise<Uint8Array> {
+    const {
+      decoder,
+      fetchTile,
+      retry,
+    } = this.options;
+    const tileSize = this._tileSizeAsNumber();
+    if (!workerPool || typeof decoder === 'function') {
+      return util.fetchAndDecodeTile(fetchTile, url, coords, signal, retry, tileSize, this._decoder);
+    }
+    if (fetchTile === util.fetchArrayBuffer && !retry.shouldRetry) {
+      return util.fetchAndDecodeTile(
+        () => workerPool.fetchAndDecode(url, coords, decoder, retry, signal),
+        url,
+        coords,
+        signal,
+        // The worker retries failed requests itself.
+        { retries: 0 },
+        tileSize,
+        (floats: ArrayBuffer) => new Float32Array(floats),
+      );
+    }
+    return util.fetchAndDecodeTile(
+      fetchTile,
+      url,
+      coords,
+      signal,
+      retry,
+      tileSize,
+      (data: ArrayBuffer) => workerPool.decode(data, decoder, signal),
+    );
+  }
+
+  /**
+   * Open the persistent cache of decoded tiles, if `options.persistentCache` is given.
    */
-  protected _fetchTileData(coords: TileCoordinates, url: string): Promise<Uint8Array> {
-    return util.fetchPNGData(this.getTileUrl(coords, url), this.options.nodataValue, this._tileSizeAsNumber());
+  protected _openPersistentCache(): PersistentTileCache | undefined {
+    const { persistentCache } = this.options;
+    return persistentCache ? PersistentTileCache.open(persistentCache) : undefined;
   }
 
   /**
@@ -536,41 +1652,142 @@ export default class GLColorScale extends L.GridLayer {
   }
 
   /**
-   * Copy pixels from the Renderer's (offscreen) <canvas> to a tile's (onscreen) canvas.
+   * Copy pixels from the Renderer's (offscreen) <canvas> to a tile's (onscreen) canvas. If the
+   * tile was rendered at `scale` times its size, its canvas is given a bitmap of that size (while
+   * Leaflet keeps it displayed at the tile's size).
    */
-  protected _copyToTileCanvas(tile: TileElement, sourceX: number, sourceY: number) {
+  protected _copyToTileCanvas(tile: TileElement, sourceX: number, sourceY: number, scale: number = 1) {
     const tileSize = this._tileSizeAsNumber();
+    // Tiles that failed to load are drawn at their own size.
+    const size = tile.error ? tileSize : tileSize * scale;
+    // The canvas may have been emptied in 'canvas' mode, or rendered at another scale.
+    if (tile.width !== size || tile.height !== size) {
+      Object.assign(tile, { width: size, height: size });
+    }
     const tileCanvas2DContext = tile.getContext('2d');
     if (tileCanvas2DContext === null) {
       throw new Error('Tile canvas 2D context is null.');
     }
     // Clear the current contents of the canvas. Otherwise, the new image will be composited with
     // the existing image.
-    tileCanvas2DContext.clearRect(0, 0, tileSize, tileSize);
+    tileCanvas2DContext.clearRect(0, 0, size, size);
+    // Tiles that failed to load are drawn in the error style instead.
+    if (tile.error) {
+      this._drawErrorTile(tile, tileCanvas2DContext);
+      return;
+    }
     // Copy the image data from the Renderer's canvas to the tile's canvas.
     tileCanvas2DContext.drawImage(
       this._renderer.canvas,
-      sourceX, sourceY, tileSize, tileSize, // source canvas offset (x, y) and size (x, y)
-      0, 0, tileSize, tileSize,             // destination canvas offset (x, y) and size (x, y)
+      sourceX, sourceY, size, size, // source canvas offset (x, y) and size (x, y)
+      0, 0, size, size,             // destination canvas offset (x, y) and size (x, y)
     );
   }
 
   /**
-   * Wraps a handler for a Leaflet MouseEvent, providing an extra property, `pixelValue`, to the
-   * event object.
+   * In 'canvas' mode, a tile's own canvas is left empty (without even a bitmap), unless the tile
+   * failed to load, in which case it's drawn in the error style.
+   */
+  protected _drawTilePlaceholder(tile: TileElement) {
+    const size = tile.error ? this._tileSizeAsNumber() : 0;
+    // (Resizing a canvas also clears it.)
+    Object.assign(tile, { width: size, height: size });
+    const context = tile.error ? tile.getContext('2d') : null;
+    if (context) {
+      this._drawErrorTile(tile, context);
+    }
+  }
+
+  /**
+   * Store a tile's pixel data (and an arithmetic layer's inputs' pixel data) on its element, and
+   * record whether it failed to load.
+   */
+  protected _setTileData(tile: TileElement, { pixelData, inputsData, error }: TileDatum) {
+    Object.assign(tile, { pixelData, inputsData });
+    this._setTileError(tile, error);
+  }
+
+  /**
+   * Record whether a tile failed to load. Tiles that did are given the class
+   * 'gl-tilelayer-tile-error', for styling.
+   */
+  protected _setTileError(tile: TileElement, error?: TileError) {
+    tile.error = error;
+    if (error) {
+      L.DomUtil.addClass(tile, 'gl-tilelayer-tile-error');
+    } else {
+      L.DomUtil.removeClass(tile, 'gl-tilelayer-tile-error');
+    }
+  }
+
+  /**
+   * Draw a tile that failed to load: filled with `options.errorTileColor` and overlaid with the
+   * image at `options.errorTileUrl`, either of which may be omitted.
+   */
+  protected _drawErrorTile(tile: TileElement, context: CanvasRenderingContext2D) {
+    const {
+      errorTileColor,
+      errorTileUrl,
+    } = this.options;
+    const tileSize = this._tileSizeAsNumber();
+    if (errorTileColor) {
+      context.fillStyle = errorTileColor;
+      context.fillRect(0, 0, tileSize, tileSize);
+    }
+    if (errorTileUrl) {
+      if (!this._errorTileImage || this._errorTileImage.getAttribute('src') !== errorTileUrl) {
+        this._errorTileImage = new Image();
+        this._errorTileImage.src = errorTileUrl;
+      }
+      const image = this._errorTileImage;
+      const drawImage = () => {
+        // Skip drawing if the tile has loaded successfully in the meantime.
+        if (tile.error) {
+          context.drawImage(image, 0, 0, tileSize, tileSize);
+        }
+      };
+      if (!image.complete) {
+        image.addEventListener('load', drawImage);
+      } else if (image.naturalWidth > 0) {
+        // (An image that failed to load is complete but empty, and can't be drawn.)
+        drawImage();
+      }
+    }
+  }
+
+  /**
+   * Wraps a handler for a Leaflet MouseEvent, providing extra properties, `pixelValue` and
+   * `filtered`, to the event object. For classed color scales, `classIndex` and `classLabel` are
+   * provided as well, and for arithmetic layers, `pixelValueA` and `pixelValueB`.
    */
   protected _wrapMouseEventHandler(handler: (event: MouseEvent) => void): (event: L.LeafletMouseEvent) => void {
     return (event) => {
       const { latlng } = event;
-      const pixelCoords: L.Point = this._map.project(latlng, this._tileZoom as number).floor();
+      const point: L.Point = this._map.project(latlng, this._tileZoom as number);
+      const pixelCoords = point.floor();
       // Find the tile containing the point.
       const containingTile: GridLayerTile | undefined = this._getTileContainingPoint(pixelCoords);
-      // Find position within tile.
-      const coordsInTile: L.Point | undefined = containingTile && this._getCoordsInTile(containingTile, pixelCoords);
+      // Find position within tile (within the pixel, too, for resampling).
+      const coordsInTile: L.Point | undefined = containingTile && this._getCoordsInTile(containingTile, point);
       // Get pixel value.
       const pixelValue = coordsInTile && this._getPixelValue(containingTile as GridLayerTile, coordsInTile);
+      // Find the pixel's class, if the color scale is classed.
+      const classIndex = (
+        typeof pixelValue === 'number'
+        ? util.classifyValue(pixelValue, this._getColorScaleSettings())
+        : undefined
+      );
+      const classLabel = classIndex === undefined ? undefined : this.options.colorScale[classIndex].label;
+      // Determine whether the pixel is hidden by the value filter.
+      const filtered = typeof pixelValue === 'number' && util.isFilteredOut(pixelValue, this.options.valueFilter);
+      // For an arithmetic layer, get the values of its inputs as well.
+      const [pixelValueA, pixelValueB] = (
+        coordsInTile
+        ? this._getInputValues(containingTile as GridLayerTile, coordsInTile)
+        : [undefined, undefined]
+      );
       // Call handler with pixel value.
-      handler({ ...event, pixelValue });
+      handler({ ...event, pixelValue, pixelValueA, pixelValueB, classIndex, classLabel, filtered });
     };
   }
 
@@ -613,8 +1830,11 @@ export default class GLColorScale extends L.GridLayer {
   }
 
   /**
-   * Get the floating-point value of the pixel at the given coordinates in the given tile.
-   * Returns `undefined` if the value is equal to `nodataValue`.
+   * Get the floating-point value at the given position in the given tile: the value of the pixel
+   * there, or, with `options.resampling`, the value interpolated between the pixels around it, the
+   * same way the shaders do.
+   * Returns `undefined` if the value is one of the no-data values, matching them the same way the
+   * shaders do.
    * If the value matches a sentinel value, returns the corresponding `SentinelValue` object.
    */
   protected _getPixelValue(tile: GridLayerTile, coordsInTile: L.Point): number | SentinelValue | undefined {
@@ -622,24 +1842,98 @@ export default class GLColorScale extends L.GridLayer {
     if (!pixelData) {
       return undefined;
     }
-    const {
-      nodataValue,
-      sentinelValues,
-    } = this.options;
-    const tileDataView = new DataView(pixelData.buffer);
-    // To find the byte index:
-    // (1) get the index of the start of the row in which the pixel is located
-    // (2) add to that the column index
-    // (3) multiply by the number of bytes used for each pixel
-    const byteIndex = (coordsInTile.y * this._tileSizeAsNumber() + coordsInTile.x) * BYTES_PER_WORD;
-    const pixelValue = tileDataView.getFloat32(byteIndex, littleEndian);
+    const { sentinelValues } = this.options;
+    const nodata = this._getNodataValues();
+    const pixelValue = this._sampleTileData(
+      pixelData,
+      coordsInTile,
+      // No-data and sentinel values aren't interpolated.
+      (value) => !util.isNoData(value, nodata) && !util.findSentinelValue(value, sentinelValues),
+      this._getNeighborTiles(tile).map((neighbor) => neighbor && neighbor.el.pixelData),
+    );
     // Check for nodata value.
-    if (pixelValue === nodataValue) {
+    if (util.isNoData(pixelValue, nodata)) {
       return undefined;
     }
-    // Check for sentinel value.
-    const sentinel = sentinelValues && sentinelValues.find(({ offset }) => offset === pixelValue);
+    // Check for sentinel value, matching it the same way the shaders do.
+    const sentinel = util.findSentinelValue(pixelValue, sentinelValues);
     // If pixelValue matches no sentinel, just return pixelValue.
     return sentinel || pixelValue;
   }
+
+  /**
+   * For an arithmetic layer, get the values of its two inputs at the given position in the given
+   * tile, sampled the same way as the pixel value. Each is `undefined` if it's one of the no-data
+   * values. For other layers, both are `undefined`.
+   */
+  protected _getInputValues(tile: GridLayerTile, coordsInTile: L.Point): Array<number | undefined> {
+    const { inputsData } = tile.el;
+    if (!inputsData) {
+      return [undefined, undefined];
+    }
+    const nodata = util.nodataValues(this.options.nodataValue);
+    const neighbors = this._getNeighborTiles(tile);
+    return inputsData.map((pixelData, index) => {
+      const value = this._sampleTileData(
+        pixelData,
+        coordsInTile,
+        (v) => !util.isNoData(v, nodata),
+        neighbors.map((neighbor) => neighbor && neighbor.el.inputsData && neighbor.el.inputsData[index]),
+      );
+      return util.isNoData(value, nodata) ? undefined : value;
+    });
+  }
+
+  /**
+   * Get the tiles to the left, right, top and bottom of the given tile, each `undefined` if it isn't
+   * loaded.
+   */
+  protected _getNeighborTiles({ coords: { x, y, z } }: GridLayerTile): Array<GridLayerTile | undefined> {
+    const tiles = util.staticCast<TileCache>(this._tiles);
+    const offsets: Array<Pair<number>> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+    return offsets.map(([dx, dy]) => (
+      tiles[this._tileCoordsToKey(util.staticCast<L.Coords>({ x: x + dx, y: y + dy, z }))]
+    ));
+  }
+
+  /**
+   * Sample the given pixel data of a tile at the given position in it, per `options.resampling`.
+   * Values for which `isInterpolable` is false aren't interpolated. Pixels beyond the tile's edges
+   * are read from `neighborsData`, the data of the tiles to the left, right, top and bottom, the
+   * same way the shaders do (see `shaders/util/locatePixel.glsl`).
+   */
+  protected _sampleTileData(
+    pixelData: Uint8Array,
+    coordsInTile: L.Point,
+    isInterpolable: (value: number) => boolean,
+    neighborsData: Array<Uint8Array | undefined>,
+  ): number {
+    const tileSize = this._tileSizeAsNumber();
+    const clampIndex = (index: number) => Math.min(Math.max(index, 0), tileSize - 1);
+    // To find the byte index:
+    // (1) get the index of the start of the row in which the pixel is located
+    // (2) add to that the column index
+    // (3) multiply by the number of bytes used for each pixel
+    const readValue = (data: Uint8Array, column: number, row: number) => (
+      new DataView(data.buffer, data.byteOffset, data.byteLength)
+        .getFloat32((row * tileSize + column) * BYTES_PER_WORD, littleEndian)
+    );
+    const getValue = (column: number, row: number): number | undefined => {
+      const [data, neighborColumn, neighborRow] = (
+        column < 0 ? [neighborsData[0], column + tileSize, clampIndex(row)]
+        : column >= tileSize ? [neighborsData[1], column - tileSize, clampIndex(row)]
+        : row < 0 ? [neighborsData[2], column, row + tileSize]
+        : row >= tileSize ? [neighborsData[3], column, row - tileSize]
+        : [pixelData, column, row]
+      );
+      return data && readValue(data, neighborColumn, neighborRow);
+    };
+    return util.sampleTileValue(
+      getValue,
+      tileSize,
+      [coordsInTile.x, coordsInTile.y],
+      this.options.resampling,
+      isInterpolable,
+    );
+  }
 }
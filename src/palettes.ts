@@ -0,0 +1,151 @@
+import REGL from 'regl';
+
+import { SCALE_MAX_LENGTH } from './constants';
+import { Color, ScaleType } from './types';
+import * as util from './util';
+
+export interface PaletteOptions {
+  // reverse the order of the palette's colors
+  reverse?: boolean;
+  // number of color stops to produce (defaults to the number of colors defining the palette)
+  stops?: number;
+  // space the offsets evenly after transformation by this scale type (see `Options.scaleType`)
+  scaleType?: ScaleType;
+  scaleExponent?: number;
+}
+
+/**
+ * Color ramps, each given as evenly spaced samples. The sequential palettes from matplotlib are
+ * sampled at 9 points; the remaining palettes are the 9-class (sequential) and 11-class (diverging)
+ * schemes from ColorBrewer.
+ */
+export const palettes = {
+  // perceptually uniform (matplotlib)
+  viridis: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'],
+  magma: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'],
+  inferno: ['#000004', '#1f0c48', '#550f6d', '#88226a', '#ba3655', '#e35933', '#f98e09', '#f9cb35', '#fcffa4'],
+  plasma: ['#0d0887', '#4c02a1', '#7e03a8', '#a92395', '#cc4778', '#e56b5d', '#f89441', '#fdc328', '#f0f921'],
+  cividis: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#fee838'],
+  // sequential (ColorBrewer)
+  Blues: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'],
+  Greens: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'],
+  Greys: ['#ffffff', '#f0f0f0', '#d9d9d9', '#bdbdbd', '#969696', '#737373', '#525252', '#252525', '#000000'],
+  Reds: ['#fff5f0', '#fee0d2', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#a50f15', '#67000d'],
+  YlGnBu: ['#ffffd9', '#edf8b1', '#c7e9b4', '#7fcdbb', '#41b6c4', '#1d91c0', '#225ea8', '#253494', '#081d58'],
+  YlOrRd: ['#ffffcc', '#ffeda0', '#fed976', '#feb24c', '#fd8d3c', '#fc4e2a', '#e31a1c', '#bd0026', '#800026'],
+  // diverging (ColorBrewer)
+  BrBG: [
+    '#543005', '#8c510a', '#bf812d', '#dfc27d', '#f6e8c3', '#f5f5f5',
+    '#c7eae5', '#80cdc1', '#35978f', '#01665e', '#003c30',
+  ],
+  PiYG: [
+    '#8e0152', '#c51b7d', '#de77ae', '#f1b6da', '#fde0ef', '#f7f7f7',
+    '#e6f5d0', '#b8e186', '#7fbc41', '#4d9221', '#276419',
+  ],
+  RdBu: [
+    '#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7',
+    '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061',
+  ],
+  RdYlBu: [
+    '#a50026', '#d73027', '#f46d43', '#fdae61', '#fee090', '#ffffbf',
+    '#e0f3f8', '#abd9e9', '#74add1', '#4575b4', '#313695',
+  ],
+  Spectral: [
+    '#9e0142', '#d53e4f', '#f46d43', '#fdae61', '#fee08b', '#ffffbf',
+    '#e6f598', '#abdda4', '#66c2a5', '#3288bd', '#5e4fa2',
+  ],
+};
+
+export type PaletteName = keyof typeof palettes;
+
+/**
+ * Create a color scale from a named palette (see `palettes`). The color stops span `domain`, which
+ * is either `[min, max]` or, for a diverging scale, `[min, center, max]`; in the latter case the
+ * middle of the palette is placed at `center`.
+ *
+ * Offsets are evenly spaced along the domain. If the layer uses a non-linear `scaleType`, pass the
+ * same `scaleType` (and `scaleExponent`) here to space them evenly after transformation instead.
+ */
+export default function palette(
+  name: PaletteName,
+  domain: number[],
+  {
+    reverse = false,
+    stops,
+    scaleType = 'linear',
+    scaleExponent = 1,
+  }: PaletteOptions = {},
+): Color[] {
+  const colors = palettes[name];
+  if (colors === undefined) {
+    throw new Error(`'${name}' is not a known palette.`);
+  }
+  if (domain.length !== 2 && domain.length !== 3) {
+    throw new Error('Palette domain must be [min, max] or [min, center, max].');
+  }
+  if (domain.some((value, i) => i > 0 && value <= domain[i - 1])) {
+    throw new Error('Palette domain must be strictly increasing.');
+  }
+  const stopCount = stops === undefined ? colors.length : stops;
+  if (!Number.isInteger(stopCount) || stopCount < 2) {
+    throw new Error('Palette must have at least 2 stops.');
+  }
+  if (stopCount > SCALE_MAX_LENGTH) {
+    throw new Error(`Palette must have at most ${SCALE_MAX_LENGTH} stops.`);
+  }
+
+  const samples = colors.map((color) => util.colorStringToWebGLFloats(color));
+  if (reverse) {
+    samples.reverse();
+  }
+  const scaledDomain = domain.map((value) => util.scaleValue(value, scaleType, scaleExponent));
+
+  return util.range(stopCount).map((index) => {
+    const fraction = index / (stopCount - 1);
+    // Use the ends of the domain as given, rather than after a round trip through the scale type.
+    const offset = (
+      index === 0 ? domain[0]
+      : index === stopCount - 1 ? domain[domain.length - 1]
+      : util.unscaleValue(interpolateDomain(scaledDomain, fraction), scaleType, scaleExponent)
+    );
+    return {
+      color: rgbToHex(samplePalette(samples, fraction)),
+      offset,
+    };
+  });
+}
+
+/**
+ * Linearly interpolate between the evenly spaced samples of a palette.
+ */
+function samplePalette(samples: REGL.Vec4[], fraction: number): REGL.Vec4 {
+  const position = fraction * (samples.length - 1);
+  const index = Math.min(Math.floor(position), samples.length - 2);
+  const t = position - index;
+  const [from, to] = [samples[index], samples[index + 1]];
+  return from.map((channel, i) => channel + (to[i] - channel) * t) as REGL.Vec4;
+}
+
+/**
+ * Map a fraction of the way along a palette to a value in its domain. A diverging domain maps the
+ * first half of the palette to [min, center] and the second half to [center, max].
+ */
+function interpolateDomain(domain: number[], fraction: number): number {
+  if (domain.length === 2) {
+    const [min, max] = domain;
+    return min + (max - min) * fraction;
+  }
+  const [min, center, max] = domain;
+  return (
+    fraction <= 0.5
+    ? min + (center - min) * fraction * 2
+    : center + (max - center) * (fraction - 0.5) * 2
+  );
+}
+
+function rgbToHex([r, g, b]: REGL.Vec4): string {
+  return `#${[r, g, b].map((channel) => {
+    const hex = Math.round(channel * 255).toString(16);
+    return hex.length === 1 ? `0${hex}` : hex;
+  }).join('')}`;
+}
@@ -7,51 +7,216 @@ import fragInterpolateColor from './shaders/interpolateColor.frag.glsl';
 import fragInterpolateValue from './shaders/interpolateValue.frag.glsl';
 import fragSingle from './shaders/single.frag.glsl';
 
+import ColorScaleTexture from './ColorScaleTexture';
 import {
-  DEFAULT_COLOR_STOP,
-  SCALE_MAX_LENGTH,
-  SENTINEL_MAX_LENGTH,
+  COLOR_SCALE_MODE_CONTINUOUS,
+  COLOR_SCALE_MODE_QUANTIZE,
+  COLOR_SCALE_MODE_THRESHOLD,
+  COLOR_SCALE_ROW,
+  CONTOURS_MAX_LENGTH,
+  HILLSHADE_DEFAULTS,
+  INTERPOLATION_HCL,
+  INTERPOLATION_LAB,
+  INTERPOLATION_OKLAB,
+  NODATA_MAX_LENGTH,
+  NODATA_RELATIVE_TOLERANCE,
+  RESAMPLING_BICUBIC,
+  RESAMPLING_BILINEAR,
+  RESAMPLING_NEAREST,
+  SCALE_SEARCH_ITERATIONS,
+  SCALE_TEXTURE_ROWS,
+  SCALE_TYPE_LOG,
+  SCALE_TYPE_POW,
+  SCALE_TYPE_SYMLOG,
+  SENTINEL_VALUES_ROW,
+  VALUE_FILTER_MAX_LENGTH,
+  VALUE_FILTER_ROW,
 } from './constants';
 import {
+  Contour,
+  Dictionary,
   DrawCommon,
   DrawTile,
   DrawTileInterpolateColor,
   DrawTileInterpolateValue,
+  HillshadeOptions,
+  NodataValues,
+  TextureBounds,
 } from './types';
 import * as util from './util';
 
 const littleEndian = util.machineIsLittleEndian();
 
-const bindStructArray = util.bindStructArray.bind(null, ['color', 'offset'], DEFAULT_COLOR_STOP);
-
-const colorScaleUniforms = bindStructArray(SCALE_MAX_LENGTH, 'colorScale');
-const sentinelValuesUniforms = bindStructArray(SENTINEL_MAX_LENGTH, 'sentinelValues');
-
 const fragMacros = {
-  SCALE_MAX_LENGTH,
-  SENTINEL_MAX_LENGTH,
+  COLOR_SCALE_MODE_CONTINUOUS,
+  COLOR_SCALE_MODE_QUANTIZE,
+  COLOR_SCALE_MODE_THRESHOLD,
+  COLOR_SCALE_ROW,
+  CONTOURS_MAX_LENGTH,
+  INTERPOLATION_HCL,
+  INTERPOLATION_LAB,
+  INTERPOLATION_OKLAB,
+  NODATA_MAX_LENGTH,
+  RESAMPLING_BICUBIC,
+  RESAMPLING_BILINEAR,
+  RESAMPLING_NEAREST,
+  // the tolerance of `isCloseEnough`, which matches no-data values the same way as `util.isNoData`
+  RELATIVE_TOLERANCE: NODATA_RELATIVE_TOLERANCE,
+  SCALE_SEARCH_ITERATIONS,
+  SCALE_TEXTURE_ROWS,
+  SCALE_TYPE_LOG,
+  SCALE_TYPE_POW,
+  SCALE_TYPE_SYMLOG,
+  SENTINEL_VALUES_ROW,
+  VALUE_FILTER_MAX_LENGTH,
+  VALUE_FILTER_ROW,
+};
+
+// the codes of the resampling methods, as the shaders identify them
+const resamplingCodes: Dictionary<number> = {
+  nearest: RESAMPLING_NEAREST,
+  bilinear: RESAMPLING_BILINEAR,
+  bicubic: RESAMPLING_BICUBIC,
 };
 
+/**
+ * Create dynamic props for the properties of a `ColorScale` struct uniform (see
+ * `shaders/util/ColorScale.glsl`), reading them from the `ColorScaleTexture` passed as prop
+ * `propName`.
+ */
+function bindColorScale<Props extends Dictionary<any>>(
+  glslIdentifier: string,
+  propName: keyof Props = (glslIdentifier as keyof Props),
+) {
+  const structPropertyNames: Array<keyof ColorScaleTexture> = [
+    'colorScaleLength',
+    'sentinelValuesLength',
+    'valueFilterLength',
+    'colorScaleMode',
+    'scaleType',
+    'scaleExponent',
+    'interpolation',
+  ];
+  const output = {} as Dictionary<any>;
+  for (const key of structPropertyNames) {
+    output[`${glslIdentifier}.${key}`] = (_: any, props: Props) => props[propName][key];
+  }
+  return output;
+}
+
+/**
+ * Create the uniforms matching pixels without data (see `shaders/util/isNoData.glsl`). The array of
+ * no-data values has a fixed length in the shaders, so the unused entries are padded with zeros.
+ */
+function bindNodataValues({ values, nan }: NodataValues) {
+  const output = {} as Dictionary<any>;
+  for (let index = 0; index < NODATA_MAX_LENGTH; ++index) {
+    output[`nodataValues[${index}]`] = index < values.length ? values[index] : 0;
+  }
+  output.nodataValuesLength = values.length;
+  output.nodataNaN = nan;
+  return output;
+}
+
+/**
+ * Create the uniforms for the properties of the `Hillshade` struct uniform (see
+ * `shaders/util/Hillshade.glsl`), from the `HillshadeOptions` passed as prop `hillshade`. The light's
+ * direction is converted from angles to a unit vector.
+ */
+function bindHillshade() {
+  const settings = (hillshade: HillshadeOptions | undefined) => Object.assign({}, HILLSHADE_DEFAULTS, hillshade);
+  return {
+    'hillshade.enabled': (_: any, { hillshade }: DrawCommon.Props) => Boolean(hillshade),
+    'hillshade.light': (_: any, { hillshade }: DrawCommon.Props) => {
+      const { azimuth, altitude } = settings(hillshade);
+      const azimuthRadians = azimuth * Math.PI / 180;
+      const altitudeRadians = altitude * Math.PI / 180;
+      return [
+        Math.sin(azimuthRadians) * Math.cos(altitudeRadians),
+        Math.cos(azimuthRadians) * Math.cos(altitudeRadians),
+        Math.sin(altitudeRadians),
+      ];
+    },
+    'hillshade.zFactor': (_: any, { hillshade }: DrawCommon.Props) => settings(hillshade).zFactor,
+    'hillshade.strength': (_: any, { hillshade }: DrawCommon.Props) => settings(hillshade).strength,
+  };
+}
+
+/**
+ * Create dynamic props for the contours (see `shaders/util/drawContours.glsl`), from the array
+ * passed as prop `contours` and their colors, already parsed, passed as prop `contourColors`. The
+ * arrays of contours have a fixed length in the shaders, so the unused entries are padded with
+ * transparent lines.
+ */
+function bindContours() {
+  const output = {} as Dictionary<any>;
+  const contourAt = (contours: Contour[], index: number): Contour => (
+    index < contours.length ? contours[index] : { value: 0, width: 0 }
+  );
+  const transparent = util.colorStringToWebGLFloats('transparent');
+  for (let index = 0; index < CONTOURS_MAX_LENGTH; ++index) {
+    output[`contourValues[${index}]`] = (_: any, { contours }: DrawCommon.Props) => contourAt(contours, index).value;
+    output[`contourColors[${index}]`] = (_: any, { contourColors }: DrawCommon.Props) => (
+      index < contourColors.length ? contourColors[index] : transparent
+    );
+    output[`contourWidths[${index}]`] = (_: any, { contours }: DrawCommon.Props) => {
+      const { width = 1 } = contourAt(contours, index);
+      return width;
+    };
+  }
+  output.contoursLength = (_: any, { contours }: DrawCommon.Props) => contours.length;
+  return output;
+}
+
+/**
+ * Create dynamic props for the bounds of the tiles next to a tile (see
+ * `shaders/util/locatePixel.glsl`), from the array passed as prop `propName`. Tiles that aren't in
+ * the texture get negative bounds.
+ */
+function bindNeighborBounds<Props extends Dictionary<any>>(glslIdentifier: string, propName: keyof Props) {
+  const output = {} as Dictionary<any>;
+  for (let index = 0; index < 4; ++index) {
+    output[`${glslIdentifier}[${index}]`] = (_: any, props: Props) => {
+      const bounds: TextureBounds | undefined = props[propName][index];
+      return bounds ? boundsVector(bounds) : [-1, -1, -1, -1];
+    };
+  }
+  return output;
+}
+
+/**
+ * The bounds of a tile in a texture atlas (see `shaders/util/sampleValue.glsl`), as a vector of
+ * left, top, right and bottom.
+ */
+function boundsVector([{ x: left, y: top }, { x: right, y: bottom }]: TextureBounds): REGL.Vec4 {
+  return [left, top, right, bottom];
+}
+
 /**
  * The object generated by this function should be merged into the DrawConfig for each Regl
  * DrawCommand in the application.
  */
 export function getCommonDrawConfiguration(
   tileSize: number,
-  nodataValue: number,
+  nodata: NodataValues,
 ): REGL.DrawConfig<DrawCommon.Uniforms, DrawCommon.Attributes, DrawCommon.Props> {
   return {
     uniforms: {
-      nodataValue,
+      ...bindNodataValues(nodata) as Pick<DrawCommon.Uniforms, 'nodataValuesLength' | 'nodataNaN'>,
+      resampling: (_, { resampling }) => resamplingCodes[resampling],
+      ...bindHillshade() as {},
+      pixelSize: (_, { pixelSize }) => pixelSize,
+      ...bindContours() as Pick<DrawCommon.Uniforms, 'contoursLength'>,
+      scale: (_, { scale = 1 }) => scale,
       littleEndian,
       transformMatrix: ({ viewportWidth, viewportHeight }) => (
         util.getTransformMatrix(viewportWidth, viewportHeight)
       ),
     },
     attributes: {
-      position: (_, { canvasCoordinates }) => {
+      position: (_, { canvasCoordinates, scale = 1 }) => {
         const [left, top] = canvasCoordinates;
-        const [right, bottom] = [left + tileSize, top + tileSize];
+        const [right, bottom] = [left + tileSize * scale, top + tileSize * scale];
         return [
           [left,  top   ],
           [right, top   ],
@@ -71,7 +236,8 @@ export function getCommonDrawConfiguration(
 
 /**
  * The resulting Regl DrawCommand is used to draw a single tile. The fragment shader decodes the
- * Float32 value of a pixel and colorizes it with the given color scale (and/or sentinel values).
+ * Float32 value of a pixel and colorizes it with the given color scale (and/or sentinel values),
+ * which it reads from a lookup texture.
  */
 export function createDrawTileCommand(
   regl: REGL.Regl,
@@ -83,11 +249,12 @@ export function createDrawTileCommand(
     frag: util.defineMacros(fragSingle, fragMacros),
     uniforms: {
       ...commonConfig.uniforms as DrawCommon.Uniforms,
-      ...colorScaleUniforms,
-      ...sentinelValuesUniforms,
-      colorScaleLength: (_, { colorScale }) => colorScale.length,
-      sentinelValuesLength: (_, { sentinelValues }) => sentinelValues.length,
+      ...bindColorScale('colorScale'),
+      colorScaleTexture: (_, { colorScale }) => colorScale.texture,
       texture: (_, { texture }) => texture,
+      tileBounds: (_, { textureBounds }) => boundsVector(textureBounds),
+      textureSize: (_, { texture }) => texture.width,
+      ...bindNeighborBounds<DrawTile.Props>('neighborBounds', 'neighborBounds'),
     },
     attributes: {
       ...commonConfig.attributes as DrawCommon.Attributes,
@@ -115,12 +282,16 @@ export function createDrawTileInterpolateValueCommand(
     frag: util.defineMacros(fragInterpolateValue, fragMacros),
     uniforms: {
       ...commonConfig.uniforms as DrawCommon.Uniforms,
-      ...colorScaleUniforms,
-      ...sentinelValuesUniforms,
-      colorScaleLength: (_, { colorScale }) => colorScale.length,
-      sentinelValuesLength: (_, { sentinelValues }) => sentinelValues.length,
+      ...bindColorScale('colorScale'),
+      colorScaleTexture: (_, { colorScale }) => colorScale.texture,
       textureA: (_, { textureA }) => textureA,
       textureB: (_, { textureB }) => textureB,
+      tileBoundsA: (_, { textureBoundsA }) => boundsVector(textureBoundsA),
+      tileBoundsB: (_, { textureBoundsB }) => boundsVector(textureBoundsB),
+      // Both textures are atlases of tiles of the same size, so they're the same size.
+      textureSize: (_, { textureA }) => textureA.width,
+      ...bindNeighborBounds<DrawTileInterpolateValue.Props>('neighborBoundsA', 'neighborBoundsA'),
+      ...bindNeighborBounds<DrawTileInterpolateValue.Props>('neighborBoundsB', 'neighborBoundsB'),
       interpolationFraction: (_, { interpolationFraction }) => interpolationFraction,
     },
     attributes: {
@@ -150,16 +321,18 @@ export function createDrawTileInterpolateColorCommand(
     frag: util.defineMacros(fragInterpolateColor, fragMacros),
     uniforms: {
       ...commonConfig.uniforms as DrawCommon.Uniforms,
-      ...bindStructArray(SCALE_MAX_LENGTH, 'colorScaleA'),
-      ...bindStructArray(SCALE_MAX_LENGTH, 'colorScaleB'),
-      ...bindStructArray(SENTINEL_MAX_LENGTH, 'sentinelValuesA'),
-      ...bindStructArray(SENTINEL_MAX_LENGTH, 'sentinelValuesB'),
-      colorScaleLengthA: (_, { colorScaleA }) => colorScaleA.length,
-      colorScaleLengthB: (_, { colorScaleB }) => colorScaleB.length,
-      sentinelValuesLengthA: (_, { sentinelValuesA }) => sentinelValuesA.length,
-      sentinelValuesLengthB: (_, { sentinelValuesB }) => sentinelValuesB.length,
+      ...bindColorScale('colorScaleA'),
+      ...bindColorScale('colorScaleB'),
+      colorScaleTextureA: (_, { colorScaleA }) => colorScaleA.texture,
+      colorScaleTextureB: (_, { colorScaleB }) => colorScaleB.texture,
       textureA: (_, { textureA }) => textureA,
       textureB: (_, { textureB }) => textureB,
+      tileBoundsA: (_, { textureBoundsA }) => boundsVector(textureBoundsA),
+      tileBoundsB: (_, { textureBoundsB }) => boundsVector(textureBoundsB),
+      // Both textures are atlases of tiles of the same size, so they're the same size.
+      textureSize: (_, { textureA }) => textureA.width,
+      ...bindNeighborBounds<DrawTileInterpolateColor.Props>('neighborBoundsA', 'neighborBoundsA'),
+      ...bindNeighborBounds<DrawTileInterpolateColor.Props>('neighborBoundsB', 'neighborBoundsB'),
       interpolationFraction: (_, { interpolationFraction }) => interpolationFraction,
     },
     attributes: {
@@ -6,61 +6,228 @@ precision mediump float;
 
 #define TRANSPARENT vec4(0.0)
 
-#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
-
+#pragma glslify: ColorScale = require(./util/ColorScale.glsl)
 #pragma glslify: computeColor = require(./util/computeColor.glsl)
-#pragma glslify: isCloseEnough = require(./util/isCloseEnough.glsl)
-#pragma glslify: ScaleStop = require(./util/ScaleStop.glsl)
+#pragma glslify: computeHillshade = require(./util/computeHillshade.glsl)
+#pragma glslify: drawContours = require(./util/drawContours.glsl)
+#pragma glslify: Hillshade = require(./util/Hillshade.glsl)
+#pragma glslify: interpolateColors = require(./util/interpolateColors.glsl)
+#pragma glslify: isFilteredOut = require(./util/isFilteredOut.glsl)
+#pragma glslify: isNoData = require(./util/isNoData.glsl)
+#pragma glslify: sampleSurface = require(./util/sampleSurface.glsl)
+#pragma glslify: sampleValue = require(./util/sampleValue.glsl)
+#pragma glslify: unpremultiplyAlpha = require(./util/unpremultiplyAlpha.glsl)
 
 uniform sampler2D textureA;
-uniform ScaleStop colorScaleA[SCALE_MAX_LENGTH];
-uniform int colorScaleLengthA;
-uniform ScaleStop sentinelValuesA[SENTINEL_MAX_LENGTH];
-uniform int sentinelValuesLengthA;
+uniform vec4 tileBoundsA;
+uniform sampler2D colorScaleTextureA;
+uniform ColorScale colorScaleA;
 
 uniform sampler2D textureB;
-uniform ScaleStop colorScaleB[SCALE_MAX_LENGTH];
-uniform int colorScaleLengthB;
-uniform ScaleStop sentinelValuesB[SENTINEL_MAX_LENGTH];
-uniform int sentinelValuesLengthB;
+uniform vec4 tileBoundsB;
+uniform sampler2D colorScaleTextureB;
+uniform ColorScale colorScaleB;
+
+uniform Hillshade hillshade;
+uniform vec4 neighborBoundsA[4];
+uniform vec4 neighborBoundsB[4];
+uniform float pixelSize;
+uniform float contourValues[CONTOURS_MAX_LENGTH];
+uniform vec4 contourColors[CONTOURS_MAX_LENGTH];
+uniform float contourWidths[CONTOURS_MAX_LENGTH];
+uniform int contoursLength;
+uniform float scale;
 
-uniform float nodataValue;
+uniform float nodataValues[NODATA_MAX_LENGTH];
+uniform int nodataValuesLength;
+uniform bool nodataNaN;
+uniform float textureSize;
+uniform int resampling;
 uniform bool littleEndian;
 uniform float interpolationFraction;
 
 varying vec2 vTexCoordA;
 varying vec2 vTexCoordB;
 
+// Whether a pixel has one of the no-data values.
+bool hasNoData(float value, vec4 rgba) {
+  return isNoData(value, rgba, littleEndian, nodataValues, nodataValuesLength, nodataNaN);
+}
+
+// Sample the value of pixel A, whose sentinel values are those of color scale A.
+float sampleA(out vec4 rgba) {
+  return sampleValue(
+    textureA,
+    vTexCoordA,
+    tileBoundsA,
+    neighborBoundsA,
+    textureSize,
+    resampling,
+    colorScaleTextureA,
+    colorScaleA,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    rgba
+  );
+}
+
+// Sample the value of pixel B, whose sentinel values are those of color scale B.
+float sampleB(out vec4 rgba) {
+  return sampleValue(
+    textureB,
+    vTexCoordB,
+    tileBoundsB,
+    neighborBoundsB,
+    textureSize,
+    resampling,
+    colorScaleTextureB,
+    colorScaleB,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    rgba
+  );
+}
+
+// Compute the hillshade factor (see `computeHillshade.glsl`) of the pixel, interpolating between the
+// two textures' surfaces.
+float hillshadeFactor() {
+  if (!hillshade.enabled) {
+    return 1.0;
+  }
+  float factorA = interpolationFraction >= 1.0 ? 1.0 : computeHillshade(
+    hillshade,
+    textureA,
+    vTexCoordA,
+    tileBoundsA,
+    textureSize,
+    pixelSize,
+    colorScaleTextureA,
+    colorScaleA,
+    littleEndian,
+    neighborBoundsA,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN
+  );
+  float factorB = interpolationFraction <= 0.0 ? 1.0 : computeHillshade(
+    hillshade,
+    textureB,
+    vTexCoordB,
+    tileBoundsB,
+    textureSize,
+    pixelSize,
+    colorScaleTextureB,
+    colorScaleB,
+    littleEndian,
+    neighborBoundsB,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN
+  );
+  return mix(factorA, factorB, clamp(interpolationFraction, 0.0, 1.0));
+}
+
+// Sample the surface of values (see `sampleSurface.glsl`) at the pixel, interpolating between the
+// two textures' surfaces where both have data.
+vec3 interpolatedSurface() {
+  bool foundA = false;
+  bool foundB = false;
+  vec3 surfaceA = interpolationFraction >= 1.0 ? vec3(0.0) : sampleSurface(
+    textureA,
+    vTexCoordA,
+    tileBoundsA,
+    neighborBoundsA,
+    textureSize,
+    colorScaleTextureA,
+    colorScaleA,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    foundA
+  );
+  vec3 surfaceB = interpolationFraction <= 0.0 ? vec3(0.0) : sampleSurface(
+    textureB,
+    vTexCoordB,
+    tileBoundsB,
+    neighborBoundsB,
+    textureSize,
+    colorScaleTextureB,
+    colorScaleB,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    foundB
+  );
+  if (!foundA) {
+    return surfaceB;
+  } else if (!foundB) {
+    return surfaceA;
+  }
+  return mix(surfaceA, surfaceB, interpolationFraction);
+}
+
 void main() {
   if (interpolationFraction <= 0.0) {
-    vec4 rgbaFloats = texture2D(textureA, vTexCoordA);
-    float pixelFloatValue = rgbaToFloat(rgbaFloats, littleEndian);
-    if (isCloseEnough(pixelFloatValue, nodataValue)) {
+    vec4 rgbaFloats;
+    float pixelFloatValue = sampleA(rgbaFloats);
+    if (
+      hasNoData(pixelFloatValue, rgbaFloats)
+      || isFilteredOut(pixelFloatValue, colorScaleTextureA, colorScaleA)
+    ) {
       discard;
     }
-    gl_FragColor = computeColor(pixelFloatValue, colorScaleA, sentinelValuesA, colorScaleLengthA, sentinelValuesLengthA);
+    gl_FragColor = computeColor(pixelFloatValue, colorScaleTextureA, colorScaleA);
   } else if (interpolationFraction >= 1.0) {
-    vec4 rgbaFloats = texture2D(textureB, vTexCoordB);
-    float pixelFloatValue = rgbaToFloat(rgbaFloats, littleEndian);
-    if (isCloseEnough(pixelFloatValue, nodataValue)) {
+    vec4 rgbaFloats;
+    float pixelFloatValue = sampleB(rgbaFloats);
+    if (
+      hasNoData(pixelFloatValue, rgbaFloats)
+      || isFilteredOut(pixelFloatValue, colorScaleTextureB, colorScaleB)
+    ) {
       discard;
     }
-    gl_FragColor = computeColor(pixelFloatValue, colorScaleB, sentinelValuesB, colorScaleLengthB, sentinelValuesLengthB);
+    gl_FragColor = computeColor(pixelFloatValue, colorScaleTextureB, colorScaleB);
   } else {
-    vec4 rgbaFloatsA = texture2D(textureA, vTexCoordA);
-    float pixelFloatValueA = rgbaToFloat(rgbaFloatsA, littleEndian);
-    vec4 rgbaFloatsB = texture2D(textureB, vTexCoordB);
-    float pixelFloatValueB = rgbaToFloat(rgbaFloatsB, littleEndian);
+    vec4 rgbaFloatsA;
+    float pixelFloatValueA = sampleA(rgbaFloatsA);
+    vec4 rgbaFloatsB;
+    float pixelFloatValueB = sampleB(rgbaFloatsB);
     vec4 colorA = (
-      isCloseEnough(pixelFloatValueA, nodataValue)
+      hasNoData(pixelFloatValueA, rgbaFloatsA)
+      || isFilteredOut(pixelFloatValueA, colorScaleTextureA, colorScaleA)
       ? TRANSPARENT
-      : computeColor(pixelFloatValueA, colorScaleA, sentinelValuesA, colorScaleLengthA, sentinelValuesLengthA)
+      : computeColor(pixelFloatValueA, colorScaleTextureA, colorScaleA)
     );
     vec4 colorB = (
-      isCloseEnough(pixelFloatValueB, nodataValue)
+      hasNoData(pixelFloatValueB, rgbaFloatsB)
+      || isFilteredOut(pixelFloatValueB, colorScaleTextureB, colorScaleB)
       ? TRANSPARENT
-      : computeColor(pixelFloatValueB, colorScaleB, sentinelValuesB, colorScaleLengthB, sentinelValuesLengthB)
+      : computeColor(pixelFloatValueB, colorScaleTextureB, colorScaleB)
+    );
+    // Crossfade using the new color scale's color space.
+    gl_FragColor = interpolateColors(
+      unpremultiplyAlpha(colorA),
+      unpremultiplyAlpha(colorB),
+      interpolationFraction,
+      colorScaleB.interpolation
+    );
+  }
+  gl_FragColor.rgb *= hillshadeFactor();
+  if (contoursLength > 0) {
+    gl_FragColor = drawContours(
+      gl_FragColor,
+      interpolatedSurface(),
+      scale,
+      contourValues,
+      contourColors,
+      contourWidths,
+      contoursLength
     );
-    gl_FragColor = mix(colorA, colorB, interpolationFraction);
   }
 }
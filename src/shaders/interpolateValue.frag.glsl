@@ -6,84 +6,225 @@ precision mediump float;
 
 #define TRANSPARENT vec4(0.0)
 
-#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
-
+#pragma glslify: ColorScale = require(./util/ColorScale.glsl)
 #pragma glslify: computeColor = require(./util/computeColor.glsl)
-#pragma glslify: isCloseEnough = require(./util/isCloseEnough.glsl)
-#pragma glslify: ScaleStop = require(./util/ScaleStop.glsl)
+#pragma glslify: computeHillshade = require(./util/computeHillshade.glsl)
+#pragma glslify: drawContours = require(./util/drawContours.glsl)
+#pragma glslify: Hillshade = require(./util/Hillshade.glsl)
+#pragma glslify: findSentinelValue = require(./util/findSentinelValue.glsl)
+#pragma glslify: interpolateColors = require(./util/interpolateColors.glsl)
+#pragma glslify: isFilteredOut = require(./util/isFilteredOut.glsl)
+#pragma glslify: isNoData = require(./util/isNoData.glsl)
+#pragma glslify: sampleSurface = require(./util/sampleSurface.glsl)
+#pragma glslify: sampleValue = require(./util/sampleValue.glsl)
+#pragma glslify: scaleTextureWidth = require(./util/scaleTextureWidth.glsl)
+#pragma glslify: unpremultiplyAlpha = require(./util/unpremultiplyAlpha.glsl)
 
-uniform ScaleStop colorScale[SCALE_MAX_LENGTH];
-uniform int colorScaleLength;
+uniform sampler2D colorScaleTexture;
+uniform ColorScale colorScale;
 
-uniform ScaleStop sentinelValues[SENTINEL_MAX_LENGTH];
-uniform int sentinelValuesLength;
+uniform Hillshade hillshade;
+uniform vec4 neighborBoundsA[4];
+uniform vec4 neighborBoundsB[4];
+uniform float pixelSize;
+uniform float contourValues[CONTOURS_MAX_LENGTH];
+uniform vec4 contourColors[CONTOURS_MAX_LENGTH];
+uniform float contourWidths[CONTOURS_MAX_LENGTH];
+uniform int contoursLength;
+uniform float scale;
 
-uniform float nodataValue;
+uniform float nodataValues[NODATA_MAX_LENGTH];
+uniform int nodataValuesLength;
+uniform bool nodataNaN;
 uniform sampler2D textureA;
 uniform sampler2D textureB;
+uniform vec4 tileBoundsA;
+uniform vec4 tileBoundsB;
+uniform float textureSize;
+uniform int resampling;
 uniform bool littleEndian;
 uniform float interpolationFraction;
 
 varying vec2 vTexCoordA;
 varying vec2 vTexCoordB;
 
-bool isSentinelValue(ScaleStop sentinelValues[SENTINEL_MAX_LENGTH], int len, float value) {
-  for (int i = 0; i < SENTINEL_MAX_LENGTH; ++i) {
-    if (i == len) {
-      break;
-    }
-    if (isCloseEnough(sentinelValues[i].offset, value)) {
-      return true;
-    }
+// Sample the value of a pixel from one of the textures.
+float sampleTexture(sampler2D texture, vec2 texCoord, vec4 bounds, vec4 neighbors[4], out vec4 rgba) {
+  return sampleValue(
+    texture,
+    texCoord,
+    bounds,
+    neighbors,
+    textureSize,
+    resampling,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    rgba
+  );
+}
+
+bool isSentinelValue(float value) {
+  if (colorScale.sentinelValuesLength == 0) {
+    return false;
   }
-  return false;
+  float textureWidth = scaleTextureWidth(colorScale);
+  return findSentinelValue(colorScaleTexture, textureWidth, colorScale.sentinelValuesLength, value) >= 0;
+}
+
+// Whether a pixel is transparent, having a no-data value or being hidden by the value filter.
+bool isHidden(float value, vec4 rgba) {
+  return (
+    isNoData(value, rgba, littleEndian, nodataValues, nodataValuesLength, nodataNaN)
+    || isFilteredOut(value, colorScaleTexture, colorScale)
+  );
+}
+
+// Compute the hillshade factor (see `computeHillshade.glsl`) of the pixel, interpolating between the
+// two textures' surfaces.
+float hillshadeFactor() {
+  if (!hillshade.enabled) {
+    return 1.0;
+  }
+  float factorA = interpolationFraction >= 1.0 ? 1.0 : computeHillshade(
+    hillshade,
+    textureA,
+    vTexCoordA,
+    tileBoundsA,
+    textureSize,
+    pixelSize,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    neighborBoundsA,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN
+  );
+  float factorB = interpolationFraction <= 0.0 ? 1.0 : computeHillshade(
+    hillshade,
+    textureB,
+    vTexCoordB,
+    tileBoundsB,
+    textureSize,
+    pixelSize,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    neighborBoundsB,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN
+  );
+  return mix(factorA, factorB, clamp(interpolationFraction, 0.0, 1.0));
+}
+
+// Sample the surface of values (see `sampleSurface.glsl`) at the pixel, interpolating between the
+// two textures' surfaces where both have data.
+vec3 interpolatedSurface() {
+  bool foundA = false;
+  bool foundB = false;
+  vec3 surfaceA = interpolationFraction >= 1.0 ? vec3(0.0) : sampleSurface(
+    textureA,
+    vTexCoordA,
+    tileBoundsA,
+    neighborBoundsA,
+    textureSize,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    foundA
+  );
+  vec3 surfaceB = interpolationFraction <= 0.0 ? vec3(0.0) : sampleSurface(
+    textureB,
+    vTexCoordB,
+    tileBoundsB,
+    neighborBoundsB,
+    textureSize,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    foundB
+  );
+  if (!foundA) {
+    return surfaceB;
+  } else if (!foundB) {
+    return surfaceA;
+  }
+  return mix(surfaceA, surfaceB, interpolationFraction);
 }
 
 void main() {
   if (interpolationFraction <= 0.0) {
-    vec4 rgbaFloats = texture2D(textureA, vTexCoordA);
-    float pixelFloatValue = rgbaToFloat(rgbaFloats, littleEndian);
-    if (isCloseEnough(pixelFloatValue, nodataValue)) {
+    vec4 rgbaFloats;
+    float pixelFloatValue = sampleTexture(textureA, vTexCoordA, tileBoundsA, neighborBoundsA, rgbaFloats);
+    if (isHidden(pixelFloatValue, rgbaFloats)) {
       discard;
     }
-    gl_FragColor = computeColor(pixelFloatValue, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength);
+    gl_FragColor = computeColor(pixelFloatValue, colorScaleTexture, colorScale);
   } else if (interpolationFraction >= 1.0) {
-    vec4 rgbaFloats = texture2D(textureB, vTexCoordB);
-    float pixelFloatValue = rgbaToFloat(rgbaFloats, littleEndian);
-    if (isCloseEnough(pixelFloatValue, nodataValue)) {
+    vec4 rgbaFloats;
+    float pixelFloatValue = sampleTexture(textureB, vTexCoordB, tileBoundsB, neighborBoundsB, rgbaFloats);
+    if (isHidden(pixelFloatValue, rgbaFloats)) {
       discard;
     }
-    gl_FragColor = computeColor(pixelFloatValue, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength);
+    gl_FragColor = computeColor(pixelFloatValue, colorScaleTexture, colorScale);
   } else {
-    vec4 rgbaFloatsA = texture2D(textureA, vTexCoordA);
-    float pixelFloatValueA = rgbaToFloat(rgbaFloatsA, littleEndian);
-    vec4 rgbaFloatsB = texture2D(textureB, vTexCoordB);
-    float pixelFloatValueB = rgbaToFloat(rgbaFloatsB, littleEndian);
-    bool aIsNodata = isCloseEnough(pixelFloatValueA, nodataValue);
-    bool bIsNodata = isCloseEnough(pixelFloatValueB, nodataValue);
-    if (aIsNodata && bIsNodata) {
+    vec4 rgbaFloatsA;
+    float pixelFloatValueA = sampleTexture(textureA, vTexCoordA, tileBoundsA, neighborBoundsA, rgbaFloatsA);
+    vec4 rgbaFloatsB;
+    float pixelFloatValueB = sampleTexture(textureB, vTexCoordB, tileBoundsB, neighborBoundsB, rgbaFloatsB);
+    bool aIsHidden = isHidden(pixelFloatValueA, rgbaFloatsA);
+    bool bIsHidden = isHidden(pixelFloatValueB, rgbaFloatsB);
+    if (aIsHidden && bIsHidden) {
       discard;
     } else if (
-      aIsNodata
-      || bIsNodata
-      || colorScaleLength == 0
-      || isSentinelValue(sentinelValues, sentinelValuesLength, pixelFloatValueA)
-      || isSentinelValue(sentinelValues, sentinelValuesLength, pixelFloatValueB)
+      aIsHidden
+      || bIsHidden
+      || colorScale.colorScaleLength == 0
+      || isSentinelValue(pixelFloatValueA)
+      || isSentinelValue(pixelFloatValueB)
     ) {
       vec4 colorA = (
-        aIsNodata
+        aIsHidden
         ? TRANSPARENT
-        : computeColor(pixelFloatValueA, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength)
+        : computeColor(pixelFloatValueA, colorScaleTexture, colorScale)
       );
       vec4 colorB = (
-        bIsNodata
+        bIsHidden
         ? TRANSPARENT
-        : computeColor(pixelFloatValueB, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength)
+        : computeColor(pixelFloatValueB, colorScaleTexture, colorScale)
+      );
+      gl_FragColor = interpolateColors(
+        unpremultiplyAlpha(colorA),
+        unpremultiplyAlpha(colorB),
+        interpolationFraction,
+        colorScale.interpolation
       );
-      gl_FragColor = mix(colorA, colorB, interpolationFraction);
     } else {
       float interpolated = mix(pixelFloatValueA, pixelFloatValueB, interpolationFraction);
-      gl_FragColor = computeColor(interpolated, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength);
+      gl_FragColor = computeColor(interpolated, colorScaleTexture, colorScale);
     }
   }
+  gl_FragColor.rgb *= hillshadeFactor();
+  if (contoursLength > 0) {
+    gl_FragColor = drawContours(
+      gl_FragColor,
+      interpolatedSurface(),
+      scale,
+      contourValues,
+      contourColors,
+      contourWidths,
+      contoursLength
+    );
+  }
 }
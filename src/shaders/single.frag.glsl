@@ -4,29 +4,101 @@ precision highp float;
 precision mediump float;
 #endif
 
-#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
-
+#pragma glslify: ColorScale = require(./util/ColorScale.glsl)
 #pragma glslify: computeColor = require(./util/computeColor.glsl)
-#pragma glslify: isCloseEnough = require(./util/isCloseEnough.glsl)
-#pragma glslify: ScaleStop = require(./util/ScaleStop.glsl)
-
-uniform ScaleStop colorScale[SCALE_MAX_LENGTH];
-uniform int colorScaleLength;
+#pragma glslify: computeHillshade = require(./util/computeHillshade.glsl)
+#pragma glslify: drawContours = require(./util/drawContours.glsl)
+#pragma glslify: Hillshade = require(./util/Hillshade.glsl)
+#pragma glslify: isFilteredOut = require(./util/isFilteredOut.glsl)
+#pragma glslify: isNoData = require(./util/isNoData.glsl)
+#pragma glslify: sampleSurface = require(./util/sampleSurface.glsl)
+#pragma glslify: sampleValue = require(./util/sampleValue.glsl)
 
-uniform ScaleStop sentinelValues[SENTINEL_MAX_LENGTH];
-uniform int sentinelValuesLength;
+uniform sampler2D colorScaleTexture;
+uniform ColorScale colorScale;
+uniform Hillshade hillshade;
+uniform float contourValues[CONTOURS_MAX_LENGTH];
+uniform vec4 contourColors[CONTOURS_MAX_LENGTH];
+uniform float contourWidths[CONTOURS_MAX_LENGTH];
+uniform int contoursLength;
+uniform float scale;
 
-uniform float nodataValue;
+uniform float nodataValues[NODATA_MAX_LENGTH];
+uniform int nodataValuesLength;
+uniform bool nodataNaN;
 uniform sampler2D texture;
+uniform vec4 tileBounds;
+uniform vec4 neighborBounds[4];
+uniform float pixelSize;
+uniform float textureSize;
+uniform int resampling;
 uniform bool littleEndian;
 
 varying vec2 vTexCoord;
 
 void main() {
-  vec4 rgbaFloats = texture2D(texture, vTexCoord);
-  float pixelFloatValue = rgbaToFloat(rgbaFloats, littleEndian);
-  if (isCloseEnough(pixelFloatValue, nodataValue)) {
+  vec4 rgbaFloats;
+  float pixelFloatValue = sampleValue(
+    texture,
+    vTexCoord,
+    tileBounds,
+    neighborBounds,
+    textureSize,
+    resampling,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN,
+    rgbaFloats
+  );
+  if (
+    isNoData(pixelFloatValue, rgbaFloats, littleEndian, nodataValues, nodataValuesLength, nodataNaN)
+    || isFilteredOut(pixelFloatValue, colorScaleTexture, colorScale)
+  ) {
     discard;
   }
-  gl_FragColor = computeColor(pixelFloatValue, colorScale, sentinelValues, colorScaleLength, sentinelValuesLength);
+  gl_FragColor = computeColor(pixelFloatValue, colorScaleTexture, colorScale);
+  gl_FragColor.rgb *= computeHillshade(
+    hillshade,
+    texture,
+    vTexCoord,
+    tileBounds,
+    textureSize,
+    pixelSize,
+    colorScaleTexture,
+    colorScale,
+    littleEndian,
+    neighborBounds,
+    nodataValues,
+    nodataValuesLength,
+    nodataNaN
+  );
+  if (contoursLength > 0) {
+    bool found;
+    vec3 surface = sampleSurface(
+      texture,
+      vTexCoord,
+      tileBounds,
+      neighborBounds,
+      textureSize,
+      colorScaleTexture,
+      colorScale,
+      littleEndian,
+      nodataValues,
+      nodataValuesLength,
+      nodataNaN,
+      found
+    );
+    gl_FragColor = drawContours(
+      gl_FragColor,
+      surface,
+      scale,
+      contourValues,
+      contourColors,
+      contourWidths,
+      contoursLength
+    );
+  }
 }
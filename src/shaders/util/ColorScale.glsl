@@ -0,0 +1,12 @@
+// Parameters describing a color scale whose stops are stored in a lookup texture.
+struct ColorScale {
+  int colorScaleLength;
+  int sentinelValuesLength;
+  int valueFilterLength;
+  int colorScaleMode;
+  int scaleType;
+  float scaleExponent;
+  int interpolation;
+};
+
+#pragma glslify: export(ColorScale)
@@ -0,0 +1,11 @@
+// Parameters of relief shading: whether it's enabled, the direction toward the light (a unit vector,
+// with x east, y north and z up), the multiplier converting pixel values to meters, and how much of
+// the shading is applied to colors (0 to 1).
+struct Hillshade {
+  bool enabled;
+  vec3 light;
+  float zFactor;
+  float strength;
+};
+
+#pragma glslify: export(Hillshade)
@@ -0,0 +1,55 @@
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: getScaleStop = require(./getScaleStop.glsl)
+#pragma glslify: scaleValue = require(./scaleValue.glsl)
+#pragma glslify: searchScaleStops = require(./searchScaleStops.glsl)
+
+#ifndef COLOR_SCALE_ROW
+#define COLOR_SCALE_ROW 0
+#endif
+
+#ifndef COLOR_SCALE_MODE_THRESHOLD
+#define COLOR_SCALE_MODE_THRESHOLD 1
+#endif
+
+#ifndef COLOR_SCALE_MODE_QUANTIZE
+#define COLOR_SCALE_MODE_QUANTIZE 2
+#endif
+
+// Find the index of the class (color stop) a value falls into, for a classed color scale:
+// - threshold: each stop's offset is the (inclusive) upper bound of its class.
+// - quantize: the range from the first offset to the last is divided into equal intervals, one per
+//   stop, after transforming according to the scale type.
+// - stepped: each stop's offset is the (inclusive) lower bound of its class.
+// Values beyond either end of the scale fall into the first or last class.
+int classifyValue(
+  float value,
+  sampler2D colorScaleTexture,
+  float textureWidth,
+  ColorScale colorScale
+) {
+  int lastIndex = colorScale.colorScaleLength - 1;
+  if (colorScale.colorScaleMode == COLOR_SCALE_MODE_QUANTIZE) {
+    float first = getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, 0).offset;
+    float last = getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, lastIndex).offset;
+    if (value <= first) {
+      return 0;
+    }
+    float scaledFirst = scaleValue(first, colorScale.scaleType, colorScale.scaleExponent);
+    float scaledLast = scaleValue(last, colorScale.scaleType, colorScale.scaleExponent);
+    float scaledValue = scaleValue(value, colorScale.scaleType, colorScale.scaleExponent);
+    float fraction = (scaledValue - scaledFirst) / (scaledLast - scaledFirst);
+    return int(clamp(floor(fraction * float(colorScale.colorScaleLength)), 0.0, float(lastIndex)));
+  }
+
+  int index = searchScaleStops(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, colorScale.colorScaleLength, value);
+  if (colorScale.colorScaleMode == COLOR_SCALE_MODE_THRESHOLD) {
+    // The class is that of the first stop whose offset is at or above the value.
+    if (index < 0 || getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, index).offset != value) {
+      index += 1;
+    }
+    return index > lastIndex ? lastIndex : index;
+  }
+  return index < 0 ? 0 : index;
+}
+
+#pragma glslify: export(classifyValue)
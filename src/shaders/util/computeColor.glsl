@@ -1,54 +1,72 @@
-#pragma glslify: isCloseEnough = require(./isCloseEnough.glsl)
+#pragma glslify: classifyValue = require(./classifyValue.glsl)
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: findSentinelValue = require(./findSentinelValue.glsl)
+#pragma glslify: getScaleStop = require(./getScaleStop.glsl)
+#pragma glslify: interpolateColors = require(./interpolateColors.glsl)
+#pragma glslify: premultiplyAlpha = require(./premultiplyAlpha.glsl)
+#pragma glslify: scaleTextureWidth = require(./scaleTextureWidth.glsl)
 #pragma glslify: ScaleStop = require(./ScaleStop.glsl)
+#pragma glslify: scaleValue = require(./scaleValue.glsl)
+#pragma glslify: searchScaleStops = require(./searchScaleStops.glsl)
 
 #ifndef DEFAULT_COLOR
 #define DEFAULT_COLOR vec4(0.0)
 #endif
 
-#ifndef SCALE_MAX_LENGTH
-#define SCALE_MAX_LENGTH 16
+#ifndef COLOR_SCALE_ROW
+#define COLOR_SCALE_ROW 0
 #endif
 
-#ifndef SENTINEL_MAX_LENGTH
-#define SENTINEL_MAX_LENGTH 16
+#ifndef SENTINEL_VALUES_ROW
+#define SENTINEL_VALUES_ROW 2
 #endif
 
+#ifndef COLOR_SCALE_MODE_CONTINUOUS
+#define COLOR_SCALE_MODE_CONTINUOUS 0
+#endif
+
+// Compute the color (with premultiplied alpha) for a pixel value.
 vec4 computeColor(
   float inputVal,
-  ScaleStop colorScale[SCALE_MAX_LENGTH],
-  ScaleStop sentinelValues[SENTINEL_MAX_LENGTH],
-  int colorScaleLength,
-  int sentinelValuesLength
+  sampler2D colorScaleTexture,
+  ColorScale colorScale
 ) {
+  int colorScaleLength = colorScale.colorScaleLength;
+  int sentinelValuesLength = colorScale.sentinelValuesLength;
+  float textureWidth = scaleTextureWidth(colorScale);
+
   // Compare the value against any sentinel values, if defined.
   if (sentinelValuesLength > 0) {
-    for (int i = 0; i < SENTINEL_MAX_LENGTH; ++i) {
-      if (i == sentinelValuesLength) {
-        break;
-      }
-      ScaleStop sentinel = sentinelValues[i];
-      if (isCloseEnough(inputVal, sentinel.offset)) {
-        return sentinel.color;
-      }
+    int sentinelIndex = findSentinelValue(colorScaleTexture, textureWidth, sentinelValuesLength, inputVal);
+    if (sentinelIndex >= 0) {
+      return premultiplyAlpha(getScaleStop(colorScaleTexture, textureWidth, SENTINEL_VALUES_ROW, sentinelIndex).color);
     }
   }
 
-  // Do linear interpolation using the color scale, if defined.
+  // For a classed color scale, use the solid color of the value's class.
+  if (colorScaleLength > 0 && colorScale.colorScaleMode != COLOR_SCALE_MODE_CONTINUOUS) {
+    int classIndex = classifyValue(inputVal, colorScaleTexture, textureWidth, colorScale);
+    return premultiplyAlpha(getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, classIndex).color);
+  }
+
+  // Interpolate between the neighboring stops of the color scale, if defined. Values and offsets are
+  // transformed according to the scale type first, so interpolation is only linear for linear scales.
   if (colorScaleLength > 0) {
-    // If value below color scale range, clamp to lowest color stop.
-    if (inputVal < colorScale[0].offset) {
-      return colorScale[0].color;
+    int index = searchScaleStops(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, colorScaleLength, inputVal);
+    if (index < 0) {
+      // If value below color scale range, clamp to lowest color stop.
+      return premultiplyAlpha(getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, 0).color);
+    } else if (index == colorScaleLength - 1) {
+      // If value above color scale range, clamp to highest color stop.
+      return premultiplyAlpha(getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, index).color);
     } else {
-      for (int i = 0; i < SCALE_MAX_LENGTH; ++i) {
-        // If value above color scale range, clamp to highest color stop.
-        if (i == colorScaleLength) {
-          return colorScale[i - 1].color;
-        } else if (inputVal <= colorScale[i + 1].offset) {
-          float percent = (inputVal - colorScale[i].offset)
-            / (colorScale[i + 1].offset - colorScale[i].offset);
-          return mix(colorScale[i].color, colorScale[i + 1].color, percent);
-        }
-      }
+      ScaleStop lower = getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, index);
+      ScaleStop upper = getScaleStop(colorScaleTexture, textureWidth, COLOR_SCALE_ROW, index + 1);
+      float scaledLower = scaleValue(lower.offset, colorScale.scaleType, colorScale.scaleExponent);
+      float scaledUpper = scaleValue(upper.offset, colorScale.scaleType, colorScale.scaleExponent);
+      float scaledInput = scaleValue(inputVal, colorScale.scaleType, colorScale.scaleExponent);
+      float percent = (scaledInput - scaledLower) / (scaledUpper - scaledLower);
+      return interpolateColors(lower.color, upper.color, percent, colorScale.interpolation);
     }
   }
 
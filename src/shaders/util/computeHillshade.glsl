@@ -0,0 +1,122 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: findSentinelValue = require(./findSentinelValue.glsl)
+#pragma glslify: Hillshade = require(./Hillshade.glsl)
+#pragma glslify: isNoData = require(./isNoData.glsl)
+#pragma glslify: locatePixel = require(./locatePixel.glsl)
+#pragma glslify: scaleTextureWidth = require(./scaleTextureWidth.glsl)
+
+#ifndef NODATA_MAX_LENGTH
+#define NODATA_MAX_LENGTH 8
+#endif
+
+// Read the value of a pixel, given in pixels from the top left corner of a tile occupying `bounds`
+// of `texture` (a texture atlas `textureSize` pixels across). A pixel just beyond one of the tile's
+// edges is read from the tile next to it (see `locatePixel`). `found` is set to whether the pixel
+// was read and has a value the shading applies to (neither a no-data value nor a sentinel value).
+float readPixel(
+  sampler2D texture,
+  vec2 pixel,
+  vec4 bounds,
+  float textureSize,
+  sampler2D colorScaleTexture,
+  ColorScale colorScale,
+  bool littleEndian,
+  vec4 neighbors[4],
+  float nodataValues[NODATA_MAX_LENGTH],
+  int nodataValuesLength,
+  bool nodataNaN,
+  out bool found
+) {
+  vec2 texCoord = locatePixel(pixel, bounds, textureSize, neighbors, found);
+  if (!found) {
+    return 0.0;
+  }
+  vec4 rgba = texture2D(texture, texCoord);
+  float value = rgbaToFloat(rgba, littleEndian);
+  float textureWidth = scaleTextureWidth(colorScale);
+  found = !(
+    isNoData(value, rgba, littleEndian, nodataValues, nodataValuesLength, nodataNaN)
+    || (
+      colorScale.sentinelValuesLength > 0
+      && findSentinelValue(colorScaleTexture, textureWidth, colorScale.sentinelValuesLength, value) >= 0
+    )
+  );
+  return value;
+}
+
+// Compute the factor by which to multiply the color of the pixel at `texCoord`, to shade it as a
+// surface lit from `hillshade.light`: 1 if shading is disabled, or else between 1 - strength
+// (facing away from the light) and 1. The surface's gradient is found by central differences with
+// the pixels to the left and right and above and below, which are read across the tile's edges
+// (see `readPixel`); where one of them is missing, the difference is taken one-sided. Pixels are
+// `pixelSize` meters across.
+float computeHillshade(
+  Hillshade hillshade,
+  sampler2D texture,
+  vec2 texCoord,
+  vec4 bounds,
+  float textureSize,
+  float pixelSize,
+  sampler2D colorScaleTexture,
+  ColorScale colorScale,
+  bool littleEndian,
+  vec4 neighbors[4],
+  float nodataValues[NODATA_MAX_LENGTH],
+  int nodataValuesLength,
+  bool nodataNaN
+) {
+  if (!hillshade.enabled) {
+    return 1.0;
+  }
+  float tileSize = floor((bounds.z - bounds.x) * textureSize + 0.5);
+  vec2 pixel = clamp(
+    floor(texCoord * textureSize) - floor(bounds.xy * textureSize + 0.5),
+    vec2(0.0),
+    vec2(tileSize - 1.0)
+  );
+
+  bool foundCenter;
+  bool foundLeft;
+  bool foundRight;
+  bool foundTop;
+  bool foundBottom;
+  float center = readPixel(
+    texture, pixel, bounds, textureSize, colorScaleTexture, colorScale, littleEndian,
+    neighbors, nodataValues, nodataValuesLength, nodataNaN, foundCenter
+  );
+  if (!foundCenter) {
+    return 1.0;
+  }
+  float left = readPixel(
+    texture, pixel + vec2(-1.0, 0.0), bounds, textureSize, colorScaleTexture, colorScale, littleEndian,
+    neighbors, nodataValues, nodataValuesLength, nodataNaN, foundLeft
+  );
+  float right = readPixel(
+    texture, pixel + vec2(1.0, 0.0), bounds, textureSize, colorScaleTexture, colorScale, littleEndian,
+    neighbors, nodataValues, nodataValuesLength, nodataNaN, foundRight
+  );
+  float top = readPixel(
+    texture, pixel + vec2(0.0, -1.0), bounds, textureSize, colorScaleTexture, colorScale, littleEndian,
+    neighbors, nodataValues, nodataValuesLength, nodataNaN, foundTop
+  );
+  float bottom = readPixel(
+    texture, pixel + vec2(0.0, 1.0), bounds, textureSize, colorScaleTexture, colorScale, littleEndian,
+    neighbors, nodataValues, nodataValuesLength, nodataNaN, foundBottom
+  );
+
+  // Rows run from north to south.
+  float spanX = (foundLeft ? 1.0 : 0.0) + (foundRight ? 1.0 : 0.0);
+  float spanY = (foundTop ? 1.0 : 0.0) + (foundBottom ? 1.0 : 0.0);
+  float differenceX = (foundRight ? right : center) - (foundLeft ? left : center);
+  float differenceY = (foundTop ? top : center) - (foundBottom ? bottom : center);
+  vec2 gradient = vec2(
+    spanX > 0.0 ? differenceX / (spanX * pixelSize) : 0.0,
+    spanY > 0.0 ? differenceY / (spanY * pixelSize) : 0.0
+  );
+  vec3 normal = normalize(vec3(-hillshade.zFactor * gradient, 1.0));
+  float shade = max(dot(normal, hillshade.light), 0.0);
+  return mix(1.0, shade, hillshade.strength);
+}
+
+#pragma glslify: export(computeHillshade)
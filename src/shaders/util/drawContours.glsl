@@ -0,0 +1,40 @@
+#pragma glslify: premultiplyAlpha = require(./premultiplyAlpha.glsl)
+
+#ifndef CONTOURS_MAX_LENGTH
+#define CONTOURS_MAX_LENGTH 16
+#endif
+
+// Draw contour lines over `color` (with premultiplied alpha), given the surface of values at the
+// pixel (see `sampleSurface`) and the scale at which the tile is drawn (the number of pixels of the
+// canvas per pixel of the tile). Each of the first `contoursLength` contours is a line `width`
+// pixels wide and centered where the surface crosses its value. Lines are antialiased by covering
+// each pixel in proportion to its distance from the line's center, estimated as the difference
+// from the contour's value divided by the gradient.
+vec4 drawContours(
+  vec4 color,
+  vec3 surface,
+  float scale,
+  float contourValues[CONTOURS_MAX_LENGTH],
+  vec4 contourColors[CONTOURS_MAX_LENGTH],
+  float contourWidths[CONTOURS_MAX_LENGTH],
+  int contoursLength
+) {
+  // change in value per pixel of the canvas
+  float slope = length(surface.yz) / scale;
+  if (slope <= 0.0) {
+    return color;
+  }
+  // Loops must have a constant bound in GLSL ES 1.0.
+  for (int i = 0; i < CONTOURS_MAX_LENGTH; ++i) {
+    if (i >= contoursLength) {
+      break;
+    }
+    float distance = abs(surface.x - contourValues[i]) / slope;
+    float coverage = clamp(contourWidths[i] / 2.0 + 0.5 - distance, 0.0, 1.0);
+    vec4 lineColor = premultiplyAlpha(contourColors[i]) * coverage;
+    color = lineColor + color * (1.0 - lineColor.a);
+  }
+  return color;
+}
+
+#pragma glslify: export(drawContours)
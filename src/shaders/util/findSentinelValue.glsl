@@ -0,0 +1,31 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: searchScaleStops = require(./searchScaleStops.glsl)
+
+#ifndef SENTINEL_VALUES_ROW
+#define SENTINEL_VALUES_ROW 2
+#endif
+
+#ifndef SCALE_TEXTURE_ROWS
+#define SCALE_TEXTURE_ROWS 8
+#endif
+
+// Find the index of the sentinel value matching `value`, or -1 if there is none. Each sentinel
+// value matches an inclusive range of values, whose lower bound is stored in place of a stop's
+// offset and whose upper bound is stored in the row below. The ranges don't overlap and are sorted,
+// so the only candidate is the last sentinel value whose lower bound is at or below `value`.
+int findSentinelValue(
+  sampler2D colorScaleTexture,
+  float textureWidth,
+  int sentinelValuesLength,
+  float value
+) {
+  int index = searchScaleStops(colorScaleTexture, textureWidth, SENTINEL_VALUES_ROW, sentinelValuesLength, value);
+  if (index < 0) {
+    return -1;
+  }
+  float x = (float(index) + 0.5) / textureWidth;
+  vec4 upperRGBA = texture2D(colorScaleTexture, vec2(x, (float(SENTINEL_VALUES_ROW) + 2.5) / float(SCALE_TEXTURE_ROWS)));
+  return value <= rgbaToFloat(upperRGBA, true) ? index : -1;
+}
+
+#pragma glslify: export(findSentinelValue)
@@ -0,0 +1,22 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: ScaleStop = require(./ScaleStop.glsl)
+
+#ifndef SCALE_TEXTURE_ROWS
+#define SCALE_TEXTURE_ROWS 8
+#endif
+
+// Read a stop from a color scale lookup texture. The stop's color is stored in `row` and its
+// offset, encoded as a little-endian 32-bit float, in the row below.
+ScaleStop getScaleStop(
+  sampler2D colorScaleTexture,
+  float textureWidth,
+  int row,
+  int index
+) {
+  float x = (float(index) + 0.5) / textureWidth;
+  vec4 color = texture2D(colorScaleTexture, vec2(x, (float(row) + 0.5) / float(SCALE_TEXTURE_ROWS)));
+  vec4 offsetRGBA = texture2D(colorScaleTexture, vec2(x, (float(row) + 1.5) / float(SCALE_TEXTURE_ROWS)));
+  return ScaleStop(rgbaToFloat(offsetRGBA, true), color);
+}
+
+#pragma glslify: export(getScaleStop)
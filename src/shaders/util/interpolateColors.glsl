@@ -0,0 +1,146 @@
+#pragma glslify: premultiplyAlpha = require(./premultiplyAlpha.glsl)
+
+#ifndef INTERPOLATION_LAB
+#define INTERPOLATION_LAB 1
+#endif
+
+#ifndef INTERPOLATION_OKLAB
+#define INTERPOLATION_OKLAB 2
+#endif
+
+#ifndef INTERPOLATION_HCL
+#define INTERPOLATION_HCL 3
+#endif
+
+#define PI 3.141592653589793
+// D65 reference white
+#define WHITE_POINT vec3(0.95047, 1.0, 1.08883)
+#define LAB_DELTA 0.20689655172413793
+
+vec3 srgbToLinear(vec3 color) {
+  vec3 low = color / 12.92;
+  vec3 high = pow((color + 0.055) / 1.055, vec3(2.4));
+  return mix(high, low, vec3(lessThanEqual(color, vec3(0.04045))));
+}
+
+vec3 linearToSRGB(vec3 color) {
+  vec3 low = color * 12.92;
+  vec3 high = 1.055 * pow(max(color, vec3(0.0)), vec3(1.0 / 2.4)) - 0.055;
+  return mix(high, low, vec3(lessThanEqual(color, vec3(0.0031308))));
+}
+
+vec3 labF(vec3 t) {
+  vec3 low = t / (3.0 * LAB_DELTA * LAB_DELTA) + 4.0 / 29.0;
+  vec3 high = pow(max(t, vec3(0.0)), vec3(1.0 / 3.0));
+  return mix(high, low, vec3(lessThanEqual(t, vec3(LAB_DELTA * LAB_DELTA * LAB_DELTA))));
+}
+
+vec3 labFInverse(vec3 t) {
+  vec3 low = 3.0 * LAB_DELTA * LAB_DELTA * (t - 4.0 / 29.0);
+  vec3 high = t * t * t;
+  return mix(high, low, vec3(lessThanEqual(t, vec3(LAB_DELTA))));
+}
+
+// CIE L*a*b*, relative to the D65 white point
+vec3 rgbToLab(vec3 rgb) {
+  vec3 linear = srgbToLinear(rgb);
+  vec3 xyz = vec3(
+    dot(vec3(0.4124564, 0.3575761, 0.1804375), linear),
+    dot(vec3(0.2126729, 0.7151522, 0.0721750), linear),
+    dot(vec3(0.0193339, 0.1191920, 0.9503041), linear)
+  );
+  vec3 f = labF(xyz / WHITE_POINT);
+  return vec3(116.0 * f.y - 16.0, 500.0 * (f.x - f.y), 200.0 * (f.y - f.z));
+}
+
+vec3 labToRGB(vec3 lab) {
+  float fy = (lab.x + 16.0) / 116.0;
+  vec3 xyz = labFInverse(vec3(fy + lab.y / 500.0, fy, fy - lab.z / 200.0)) * WHITE_POINT;
+  vec3 linear = vec3(
+    dot(vec3(3.2404542, -1.5371385, -0.4985314), xyz),
+    dot(vec3(-0.9692660, 1.8760108, 0.0415560), xyz),
+    dot(vec3(0.0556434, -0.2040259, 1.0572252), xyz)
+  );
+  return linearToSRGB(linear);
+}
+
+// OKLab, as defined by Björn Ottosson
+vec3 rgbToOKLab(vec3 rgb) {
+  vec3 linear = srgbToLinear(rgb);
+  vec3 lms = vec3(
+    dot(vec3(0.4122214708, 0.5363325363, 0.0514459929), linear),
+    dot(vec3(0.2119034982, 0.6806995451, 0.1073969566), linear),
+    dot(vec3(0.0883024619, 0.2817188376, 0.6299787005), linear)
+  );
+  vec3 lmsRoot = pow(max(lms, vec3(0.0)), vec3(1.0 / 3.0));
+  return vec3(
+    dot(vec3(0.2104542553, 0.7936177850, -0.0040720468), lmsRoot),
+    dot(vec3(1.9779984951, -2.4285922050, 0.4505937099), lmsRoot),
+    dot(vec3(0.0259040371, 0.7827717662, -0.8086757660), lmsRoot)
+  );
+}
+
+vec3 okLabToRGB(vec3 lab) {
+  vec3 lmsRoot = vec3(
+    dot(vec3(1.0, 0.3963377774, 0.2158037573), lab),
+    dot(vec3(1.0, -0.1055613458, -0.0638541728), lab),
+    dot(vec3(1.0, -0.0894841775, -1.2914855480), lab)
+  );
+  vec3 lms = lmsRoot * lmsRoot * lmsRoot;
+  vec3 linear = vec3(
+    dot(vec3(4.0767416621, -3.3077115913, 0.2309699292), lms),
+    dot(vec3(-1.2684380046, 2.6097574011, -0.3413193965), lms),
+    dot(vec3(-0.0041960863, -0.7034186147, 1.7076147010), lms)
+  );
+  return linearToSRGB(linear);
+}
+
+// Interpolate in polar L*a*b* (HCL), taking the shorter way around the hue circle. The hue of a
+// gray color is undefined, so the other color's hue is used.
+vec3 mixHCL(vec3 labA, vec3 labB, float t) {
+  float chromaA = length(labA.yz);
+  float chromaB = length(labB.yz);
+  float hueA = atan(labA.z, labA.y);
+  float hueB = atan(labB.z, labB.y);
+  if (chromaA < 0.0001) {
+    hueA = hueB;
+  } else if (chromaB < 0.0001) {
+    hueB = hueA;
+  }
+  float hueDelta = hueB - hueA;
+  if (hueDelta > PI) {
+    hueDelta -= 2.0 * PI;
+  } else if (hueDelta < -PI) {
+    hueDelta += 2.0 * PI;
+  }
+  float hue = hueA + hueDelta * t;
+  float chroma = mix(chromaA, chromaB, t);
+  return vec3(mix(labA.x, labB.x, t), chroma * cos(hue), chroma * sin(hue));
+}
+
+// Interpolate between two colors with straight alpha in the given color space, returning a color
+// with premultiplied alpha. RGB interpolation is done on premultiplied colors. In the other color
+// spaces, a fully transparent color takes on the other color's hue, so fading to or from
+// transparent doesn't pass through another color.
+vec4 interpolateColors(vec4 colorA, vec4 colorB, float t, int interpolation) {
+  if (
+    interpolation != INTERPOLATION_LAB
+    && interpolation != INTERPOLATION_OKLAB
+    && interpolation != INTERPOLATION_HCL
+  ) {
+    return mix(premultiplyAlpha(colorA), premultiplyAlpha(colorB), t);
+  }
+  vec3 rgbA = colorA.a > 0.0 ? colorA.rgb : colorB.rgb;
+  vec3 rgbB = colorB.a > 0.0 ? colorB.rgb : colorA.rgb;
+  vec3 rgb;
+  if (interpolation == INTERPOLATION_OKLAB) {
+    rgb = okLabToRGB(mix(rgbToOKLab(rgbA), rgbToOKLab(rgbB), t));
+  } else if (interpolation == INTERPOLATION_HCL) {
+    rgb = labToRGB(mixHCL(rgbToLab(rgbA), rgbToLab(rgbB), t));
+  } else {
+    rgb = labToRGB(mix(rgbToLab(rgbA), rgbToLab(rgbB), t));
+  }
+  return premultiplyAlpha(vec4(clamp(rgb, 0.0, 1.0), mix(colorA.a, colorB.a, t)));
+}
+
+#pragma glslify: export(interpolateColors)
@@ -0,0 +1,59 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: findSentinelValue = require(./findSentinelValue.glsl)
+#pragma glslify: scaleTextureWidth = require(./scaleTextureWidth.glsl)
+
+#ifndef VALUE_FILTER_ROW
+#define VALUE_FILTER_ROW 5
+#endif
+
+#ifndef VALUE_FILTER_MAX_LENGTH
+#define VALUE_FILTER_MAX_LENGTH 64
+#endif
+
+#ifndef SCALE_TEXTURE_ROWS
+#define SCALE_TEXTURE_ROWS 8
+#endif
+
+// Whether a pixel value is hidden by the value filter: that is, the filter has at least one range,
+// the value isn't a sentinel value, and it falls within none of the ranges. Each range occupies one
+// column of the lookup texture, with its flags (red: has a lower bound; green: has an upper bound;
+// blue: the bounds are inclusive) in VALUE_FILTER_ROW and its lower and upper bounds (encoded as
+// little-endian 32-bit floats) in the two rows below.
+bool isFilteredOut(
+  float value,
+  sampler2D colorScaleTexture,
+  ColorScale colorScale
+) {
+  if (colorScale.valueFilterLength == 0) {
+    return false;
+  }
+  float textureWidth = scaleTextureWidth(colorScale);
+  if (
+    colorScale.sentinelValuesLength > 0
+    && findSentinelValue(colorScaleTexture, textureWidth, colorScale.sentinelValuesLength, value) >= 0
+  ) {
+    return false;
+  }
+  // Loops must have a constant bound in GLSL ES 1.0.
+  for (int i = 0; i < VALUE_FILTER_MAX_LENGTH; ++i) {
+    if (i >= colorScale.valueFilterLength) {
+      break;
+    }
+    float x = (float(i) + 0.5) / textureWidth;
+    vec4 flags = texture2D(colorScaleTexture, vec2(x, (float(VALUE_FILTER_ROW) + 0.5) / float(SCALE_TEXTURE_ROWS)));
+    vec4 minRGBA = texture2D(colorScaleTexture, vec2(x, (float(VALUE_FILTER_ROW) + 1.5) / float(SCALE_TEXTURE_ROWS)));
+    vec4 maxRGBA = texture2D(colorScaleTexture, vec2(x, (float(VALUE_FILTER_ROW) + 2.5) / float(SCALE_TEXTURE_ROWS)));
+    float lower = rgbaToFloat(minRGBA, true);
+    float upper = rgbaToFloat(maxRGBA, true);
+    bool inclusive = flags.b > 0.5;
+    bool aboveMin = flags.r < 0.5 || (inclusive ? value >= lower : value > lower);
+    bool belowMax = flags.g < 0.5 || (inclusive ? value <= upper : value < upper);
+    if (aboveMin && belowMax) {
+      return false;
+    }
+  }
+  return true;
+}
+
+#pragma glslify: export(isFilteredOut)
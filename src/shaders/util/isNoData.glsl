@@ -0,0 +1,46 @@
+#pragma glslify: isCloseEnough = require(./isCloseEnough.glsl)
+
+#ifndef NODATA_MAX_LENGTH
+#define NODATA_MAX_LENGTH 8
+#endif
+
+// Whether the bytes of a 32-bit float (as read from a texture, in the given byte order) are NaN: the
+// exponent has all bits set and the mantissa is non-zero. This is checked on the bytes because
+// `rgbaToFloat` decodes NaN as a finite (or infinite) value, and GLSL ES 1.0 has no `isnan`.
+bool isNaNBytes(vec4 rgba, bool littleEndian) {
+  vec4 bytes = floor(rgba * 255.0 + 0.5);
+  // Put the most significant byte in `a`.
+  if (!littleEndian) {
+    bytes = bytes.abgr;
+  }
+  float exponent = mod(bytes.a, 128.0) * 2.0 + floor(bytes.b / 128.0);
+  float mantissa = mod(bytes.b, 128.0) + bytes.g + bytes.r;
+  return exponent == 255.0 && mantissa > 0.0;
+}
+
+// Whether a pixel has no data: it's NaN and `nodataNaN` is set, or its value is close enough to one
+// of the first `nodataValuesLength` of `nodataValues`.
+bool isNoData(
+  float value,
+  vec4 rgba,
+  bool littleEndian,
+  float nodataValues[NODATA_MAX_LENGTH],
+  int nodataValuesLength,
+  bool nodataNaN
+) {
+  if (isNaNBytes(rgba, littleEndian)) {
+    return nodataNaN;
+  }
+  // Loops must have a constant bound in GLSL ES 1.0.
+  for (int i = 0; i < NODATA_MAX_LENGTH; ++i) {
+    if (i >= nodataValuesLength) {
+      break;
+    }
+    if (isCloseEnough(value, nodataValues[i])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+#pragma glslify: export(isNoData)
@@ -0,0 +1,32 @@
+// Find a pixel, given in pixels from the top left corner of a tile occupying `bounds` of a texture
+// atlas `textureSize` pixels across, returning its texture coordinates. A pixel beyond one of the
+// tile's edges is found in the tile next to it, whose bounds are in `neighbors` (left, right, top
+// and bottom), negative if that tile isn't in the atlas. Beyond a corner, it's found in the tile to
+// the left or right, in the nearest row. `found` is set to whether the pixel was found.
+vec2 locatePixel(
+  vec2 pixel,
+  vec4 bounds,
+  float textureSize,
+  vec4 neighbors[4],
+  out bool found
+) {
+  float tileSize = floor((bounds.z - bounds.x) * textureSize + 0.5);
+  vec4 tileBounds = bounds;
+  if (pixel.x < 0.0) {
+    tileBounds = neighbors[0];
+    pixel = vec2(pixel.x + tileSize, clamp(pixel.y, 0.0, tileSize - 1.0));
+  } else if (pixel.x >= tileSize) {
+    tileBounds = neighbors[1];
+    pixel = vec2(pixel.x - tileSize, clamp(pixel.y, 0.0, tileSize - 1.0));
+  } else if (pixel.y < 0.0) {
+    tileBounds = neighbors[2];
+    pixel.y += tileSize;
+  } else if (pixel.y >= tileSize) {
+    tileBounds = neighbors[3];
+    pixel.y -= tileSize;
+  }
+  found = tileBounds.x >= 0.0;
+  return (floor(tileBounds.xy * textureSize + 0.5) + pixel + 0.5) / textureSize;
+}
+
+#pragma glslify: export(locatePixel)
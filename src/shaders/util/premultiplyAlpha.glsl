@@ -0,0 +1,7 @@
+// The WebGL canvas expects colors with premultiplied alpha. Colors in the lookup texture have
+// straight alpha, so they're converted before being blended or output.
+vec4 premultiplyAlpha(vec4 color) {
+  return vec4(color.rgb * color.a, color.a);
+}
+
+#pragma glslify: export(premultiplyAlpha)
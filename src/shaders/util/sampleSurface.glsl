@@ -0,0 +1,60 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: isNoData = require(./isNoData.glsl)
+#pragma glslify: sampleValue = require(./sampleValue.glsl)
+
+#ifndef NODATA_MAX_LENGTH
+#define NODATA_MAX_LENGTH 8
+#endif
+
+#ifndef RESAMPLING_BILINEAR
+#define RESAMPLING_BILINEAR 1
+#endif
+
+// Sample the smooth surface formed by a tile's values (interpolated bilinearly, whatever the
+// resampling) at `texCoord`, returning its value and its gradient, per pixel of the tile, as
+// (value, d/dx, d/dy). The gradient is found by central differences half a pixel either side.
+// `found` is set to whether the nearest pixel has data. See `sampleValue` for the other arguments.
+vec3 sampleSurface(
+  sampler2D texture,
+  vec2 texCoord,
+  vec4 bounds,
+  vec4 neighbors[4],
+  float textureSize,
+  sampler2D colorScaleTexture,
+  ColorScale colorScale,
+  bool littleEndian,
+  float nodataValues[NODATA_MAX_LENGTH],
+  int nodataValuesLength,
+  bool nodataNaN,
+  out bool found
+) {
+  vec4 rgba;
+  vec2 dx = vec2(0.5 / textureSize, 0.0);
+  vec2 dy = vec2(0.0, 0.5 / textureSize);
+  float value = sampleValue(
+    texture, texCoord, bounds, neighbors, textureSize, RESAMPLING_BILINEAR, colorScaleTexture, colorScale,
+    littleEndian, nodataValues, nodataValuesLength, nodataNaN, rgba
+  );
+  float nearest = rgbaToFloat(rgba, littleEndian);
+  found = !isNoData(nearest, rgba, littleEndian, nodataValues, nodataValuesLength, nodataNaN);
+  float left = sampleValue(
+    texture, texCoord - dx, bounds, neighbors, textureSize, RESAMPLING_BILINEAR, colorScaleTexture, colorScale,
+    littleEndian, nodataValues, nodataValuesLength, nodataNaN, rgba
+  );
+  float right = sampleValue(
+    texture, texCoord + dx, bounds, neighbors, textureSize, RESAMPLING_BILINEAR, colorScaleTexture, colorScale,
+    littleEndian, nodataValues, nodataValuesLength, nodataNaN, rgba
+  );
+  float top = sampleValue(
+    texture, texCoord - dy, bounds, neighbors, textureSize, RESAMPLING_BILINEAR, colorScaleTexture, colorScale,
+    littleEndian, nodataValues, nodataValuesLength, nodataNaN, rgba
+  );
+  float bottom = sampleValue(
+    texture, texCoord + dy, bounds, neighbors, textureSize, RESAMPLING_BILINEAR, colorScaleTexture, colorScale,
+    littleEndian, nodataValues, nodataValuesLength, nodataNaN, rgba
+  );
+  return vec3(value, right - left, bottom - top);
+}
+
+#pragma glslify: export(sampleSurface)
@@ -0,0 +1,105 @@
+#pragma glslify: rgbaToFloat = require(glsl-rgba-to-float)
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+#pragma glslify: findSentinelValue = require(./findSentinelValue.glsl)
+#pragma glslify: isNoData = require(./isNoData.glsl)
+#pragma glslify: locatePixel = require(./locatePixel.glsl)
+#pragma glslify: scaleTextureWidth = require(./scaleTextureWidth.glsl)
+
+#ifndef NODATA_MAX_LENGTH
+#define NODATA_MAX_LENGTH 8
+#endif
+
+#ifndef RESAMPLING_BILINEAR
+#define RESAMPLING_BILINEAR 1
+#endif
+
+#ifndef RESAMPLING_BICUBIC
+#define RESAMPLING_BICUBIC 2
+#endif
+
+// Weights of the 4 pixels around a position, which is a fraction `t` of the way from the second to
+// the third. Bilinear resampling only weights the middle two.
+vec4 resamplingWeights(float t, int resampling) {
+  if (resampling == RESAMPLING_BICUBIC) {
+    // Catmull-Rom spline
+    float t2 = t * t;
+    float t3 = t2 * t;
+    return vec4(
+      -0.5 * t3 + t2 - 0.5 * t,
+      1.5 * t3 - 2.5 * t2 + 1.0,
+      -1.5 * t3 + 2.0 * t2 + 0.5 * t,
+      0.5 * t3 - 0.5 * t2
+    );
+  }
+  return vec4(0.0, 1.0 - t, t, 0.0);
+}
+
+// Sample a tile's value at `texCoord`. The tile occupies `bounds` (left, top, right, bottom, in
+// texture coordinates) of `texture`, a texture atlas `textureSize` pixels across. With bilinear or
+// bicubic resampling, the value is interpolated between the 2x2 or 4x4 pixels around `texCoord`,
+// with pixels beyond the tile's edges read from the tiles next to it (see `locatePixel`), or replaced
+// by those on its edges where those tiles aren't in the atlas. Otherwise, or if any of those
+// pixels has no data or a sentinel value (which can't be interpolated), the value is the nearest
+// pixel's. `rgba` is set to the nearest pixel's bytes, for checking whether it has no data.
+float sampleValue(
+  sampler2D texture,
+  vec2 texCoord,
+  vec4 bounds,
+  vec4 neighbors[4],
+  float textureSize,
+  int resampling,
+  sampler2D colorScaleTexture,
+  ColorScale colorScale,
+  bool littleEndian,
+  float nodataValues[NODATA_MAX_LENGTH],
+  int nodataValuesLength,
+  bool nodataNaN,
+  out vec4 rgba
+) {
+  rgba = texture2D(texture, texCoord);
+  float nearest = rgbaToFloat(rgba, littleEndian);
+  if (resampling != RESAMPLING_BILINEAR && resampling != RESAMPLING_BICUBIC) {
+    return nearest;
+  }
+
+  // Find the position relative to the centers of the pixels.
+  vec2 position = texCoord * textureSize - 0.5;
+  vec2 base = floor(position);
+  vec4 weightsX = resamplingWeights(position.x - base.x, resampling);
+  vec4 weightsY = resamplingWeights(position.y - base.y, resampling);
+  vec2 minPixel = floor(bounds.xy * textureSize + 0.5);
+  float tileSize = floor((bounds.z - bounds.x) * textureSize + 0.5);
+  float textureWidth = scaleTextureWidth(colorScale);
+
+  float sum = 0.0;
+  for (int j = 0; j < 4; ++j) {
+    for (int i = 0; i < 4; ++i) {
+      float weight = weightsX[i] * weightsY[j];
+      if (weight == 0.0) {
+        continue;
+      }
+      // the pixel's position relative to the tile
+      vec2 pixel = base + vec2(float(i - 1), float(j - 1)) - minPixel;
+      bool found;
+      vec2 pixelTexCoord = locatePixel(pixel, bounds, textureSize, neighbors, found);
+      if (!found) {
+        pixelTexCoord = (minPixel + clamp(pixel, 0.0, tileSize - 1.0) + 0.5) / textureSize;
+      }
+      vec4 pixelRGBA = texture2D(texture, pixelTexCoord);
+      float value = rgbaToFloat(pixelRGBA, littleEndian);
+      if (
+        isNoData(value, pixelRGBA, littleEndian, nodataValues, nodataValuesLength, nodataNaN)
+        || (
+          colorScale.sentinelValuesLength > 0
+          && findSentinelValue(colorScaleTexture, textureWidth, colorScale.sentinelValuesLength, value) >= 0
+        )
+      ) {
+        return nearest;
+      }
+      sum += weight * value;
+    }
+  }
+  return sum;
+}
+
+#pragma glslify: export(sampleValue)
@@ -0,0 +1,12 @@
+#pragma glslify: ColorScale = require(./ColorScale.glsl)
+
+// The lookup texture is as wide as the longest of the color scale, the sentinel values and the
+// value filter (and at least one texel wide).
+float scaleTextureWidth(ColorScale colorScale) {
+  return max(
+    max(float(colorScale.colorScaleLength), float(colorScale.sentinelValuesLength)),
+    max(float(colorScale.valueFilterLength), 1.0)
+  );
+}
+
+#pragma glslify: export(scaleTextureWidth)
@@ -0,0 +1,27 @@
+#ifndef SCALE_TYPE_LOG
+#define SCALE_TYPE_LOG 1
+#endif
+
+#ifndef SCALE_TYPE_SYMLOG
+#define SCALE_TYPE_SYMLOG 2
+#endif
+
+#ifndef SCALE_TYPE_POW
+#define SCALE_TYPE_POW 3
+#endif
+
+// Transform a value (or color stop offset) according to the scale type, prior to interpolating
+// between color stops. Any other scale type is linear. The square root scale is a power scale with
+// exponent 0.5.
+float scaleValue(float value, int scaleType, float exponent) {
+  if (scaleType == SCALE_TYPE_LOG) {
+    return log(value);
+  } else if (scaleType == SCALE_TYPE_SYMLOG) {
+    return sign(value) * log(1.0 + abs(value));
+  } else if (scaleType == SCALE_TYPE_POW) {
+    return sign(value) * pow(abs(value), exponent);
+  }
+  return value;
+}
+
+#pragma glslify: export(scaleValue)
@@ -0,0 +1,32 @@
+#pragma glslify: getScaleStop = require(./getScaleStop.glsl)
+
+#ifndef SCALE_SEARCH_ITERATIONS
+#define SCALE_SEARCH_ITERATIONS 13
+#endif
+
+// Binary search over the (sorted) stops in `row` of a color scale lookup texture. Returns the index
+// of the last stop whose offset is less than or equal to `value`, or -1 if there is none.
+int searchScaleStops(
+  sampler2D colorScaleTexture,
+  float textureWidth,
+  int row,
+  int length,
+  float value
+) {
+  int low = -1;
+  int high = length;
+  for (int i = 0; i < SCALE_SEARCH_ITERATIONS; ++i) {
+    if (high - low <= 1) {
+      break;
+    }
+    int middle = (low + high) / 2;
+    if (getScaleStop(colorScaleTexture, textureWidth, row, middle).offset <= value) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+#pragma glslify: export(searchScaleStops)
@@ -0,0 +1,7 @@
+// Inverse of `premultiplyAlpha`. The color channels of a fully transparent color are lost, so
+// they're returned as 0.
+vec4 unpremultiplyAlpha(vec4 color) {
+  return color.a > 0.0 ? vec4(color.rgb / color.a, color.a) : vec4(0.0);
+}
+
+#pragma glslify: export(unpremultiplyAlpha)
@@ -1,13 +1,210 @@
 import REGL from 'regl';
 
+import ColorScaleTexture from './ColorScaleTexture';
+
 export interface Color {
   color: string;
   offset: number;
   label?: string;
 }
 
-export interface SentinelValue extends Color {
+// A sentinel value matches either a single value, `offset` (within `tolerance`, which defaults to
+// `SENTINEL_RELATIVE_TOLERANCE` times the magnitude of `offset`), or the values from `min` to `max`,
+// inclusive (either of which may be omitted).
+export interface SentinelValue {
+  color: string;
   label: string;
+  offset?: number;
+  tolerance?: number;
+  min?: number;
+  max?: number;
+}
+
+// how pixel values are mapped onto the range between two color stops
+export type ScaleType = 'linear' | 'log' | 'symlog' | 'sqrt' | 'pow';
+
+// whether colors are interpolated between color stops ('continuous') or each stop defines a class
+// with a solid color
+export type ColorScaleMode = 'continuous' | 'threshold' | 'quantize' | 'stepped';
+
+// the color space in which colors are blended
+export type Interpolation = 'rgb' | 'lab' | 'oklab' | 'hcl';
+
+// how values are sampled from tiles displayed larger than their size (past `maxNativeZoom`)
+export type Resampling = 'nearest' | 'bilinear' | 'bicubic';
+
+// relief shading of the surface formed by pixel values
+export interface HillshadeOptions {
+  // direction the light comes from, in degrees clockwise from north
+  azimuth?: number;
+  // angle of the light above the horizon, in degrees
+  altitude?: number;
+  // multiplier converting pixel values to meters, the unit of the pixels' size
+  zFactor?: number;
+  // how strongly the shading darkens colors, from 0 (not at all) to 1 (to black, facing away from the light)
+  strength?: number;
+}
+
+// a line drawn where pixel values cross `value`
+export interface Contour {
+  value: number;
+  // CSS color of the line (black by default)
+  color?: string;
+  // width of the line, in pixels (1 by default)
+  width?: number;
+}
+
+// how the layer is displayed: 'tiles' copies each tile into its own 2D canvas, while 'canvas' draws
+// all tiles directly into a single WebGL canvas aligned with the map
+export type RenderMode = 'tiles' | 'canvas';
+
+// how an automatic color scale domain is computed from the data in the visible tiles
+export type AutoDomainMethod = 'minmax' | 'percentile' | 'quantile';
+
+export interface AutoDomainOptions {
+  method?: AutoDomainMethod;
+  // for the 'percentile' method: the lower and upper percentiles (0 to 100) spanned by the color scale
+  percentiles?: Pair<number>;
+  // whether to recompute the domain whenever the map is panned or zoomed
+  updateOnMove?: boolean;
+}
+
+// statistics over the values of the pixels considered when computing an automatic domain
+export interface DomainStatistics {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  // the offsets of the first and last color stops after fitting
+  domain: Pair<number>;
+  // the offsets of all the color stops after fitting
+  offsets: number[];
+}
+
+// a range of values; either bound may be omitted, and both are inclusive unless `inclusive` is false
+export interface ValueRange {
+  min?: number;
+  max?: number;
+  inclusive?: boolean;
+}
+
+// pixels whose values fall within none of the ranges are hidden
+export type ValueFilter = ValueRange | ValueRange[];
+
+// the value, or values, of pixels without data; 'NaN' (or NaN) matches NaN pixels
+export type NodataValue = number | number[] | 'NaN';
+
+// a `NodataValue` in the form used for matching pixels
+export interface NodataValues {
+  // the numeric no-data values, other than NaN
+  values: number[];
+  // whether NaN pixels are no-data
+  nan: boolean;
+}
+
+// how pixel values are encoded in tile images
+export type TileEncoding = (
+  'float32-rgba' | 'float64-rgba' | 'uint8' | 'uint16' | 'int16' | 'terrain-rgb' | 'terrarium'
+);
+
+// an encoding, with a linear rescaling (value = integer * scale + offset) for integer encodings
+export interface DecoderOptions {
+  encoding: TileEncoding;
+  scale?: number;
+  offset?: number;
+}
+
+// decodes the bytes of a tile image into one 32-bit float per pixel
+export type TileDecoder = (data: ArrayBuffer) => Float32Array;
+
+// fetches the bytes of a tile image, abandoning the request if `signal` is aborted
+export type FetchTile = (url: string, coords: TileCoordinates, signal: AbortSignal) => Promise<ArrayBuffer>;
+
+// produces the pixel values of a tile (one float per pixel, row by row), abandoning the work if
+// `signal` is aborted
+export type TileSourceFunction = (coords: TileCoordinates, signal: AbortSignal) => Promise<Float32Array>;
+
+export interface TileSourceObject {
+  getTile: TileSourceFunction;
+  // the source's no-data value, used as the layer's `nodataValue` if it isn't given one
+  nodataValue?: NodataValue;
+  // size of the tiles the source produces, in pixels, if it's fixed; it must match the layer's `tileSize`
+  tileSize?: number;
+}
+
+// a programmatic source of tile data, used instead of a URL
+export type TileSource = TileSourceFunction | TileSourceObject;
+
+// where the layer's data come from: a URL template, or a tile source
+export type DataSource = string | TileSource;
+
+// how an arithmetic layer combines its two inputs, a and b: 'difference' (a - b), 'ratio' (a / b) or
+// 'change' ((a - b) / b)
+export type Operation = 'difference' | 'ratio' | 'change';
+
+// a job for a worker in the worker pool, and the messages exchanged with the worker about it
+export type WorkerJob = (
+  {
+    type: 'fetchAndDecode',
+    url: string,
+    coords: TileCoordinates,
+    decoder: TileEncoding | DecoderOptions,
+    retry: RetryOptions,
+  }
+  | { type: 'decode', data: ArrayBuffer, decoder: TileEncoding | DecoderOptions }
+);
+
+export type WorkerRequest = (WorkerJob | { type: 'abort' }) & { id: number };
+
+export interface WorkerResponse {
+  id: number;
+  // the bytes of the decoded floats
+  data?: ArrayBuffer;
+  error?: {
+    message: string;
+    status?: number;
+    // set if the job couldn't be run, because the worker failed
+    workerFailure?: boolean;
+  };
+}
+
+// settings of the persistent cache of decoded tiles
+export interface PersistentCacheOptions {
+  // name of the IndexedDB database
+  name?: string;
+  // maximum size of the cached tile data, in bytes
+  maxBytes?: number;
+}
+
+// when and how often to retry a failed tile request
+export interface RetryOptions {
+  // maximum number of retries after the first attempt
+  retries?: number;
+  // delay before the first retry, in milliseconds; each further retry waits `backoff` times longer
+  delay?: number;
+  backoff?: number;
+  // decides whether to retry after the given error (by default, for network errors and transient HTTP statuses)
+  shouldRetry?: (error: any, attempt: number) => boolean;
+}
+
+// the error reported for a tile that failed to load
+export interface TileError extends Error {
+  coords: TileCoordinates;
+  // the tile's URL, or `undefined` if it came from a tile source
+  url?: string;
+  // the error thrown while fetching or decoding the tile
+  cause: any;
+}
+
+// the options that together determine how pixel values are colorized
+export interface ColorScaleSettings {
+  colorScale: Color[];
+  sentinelValues: SentinelValue[];
+  valueFilter: ValueFilter;
+  colorScaleMode: ColorScaleMode;
+  scaleType: ScaleType;
+  scaleExponent: number;
+  interpolation: Interpolation;
 }
 
 export interface Dictionary<T> {
@@ -30,6 +227,14 @@ export interface TextureCoordinates {
 // [topLeft, bottomRight]
 export type TextureBounds = [TextureCoordinates, TextureCoordinates];
 
+// where tiles are rendered in a canvas: its size, and the top left corner (in pixels) and scale (the
+// size at which a tile is drawn, relative to its size in pixels) of each tile
+export interface CanvasLayout {
+  canvasSize: Pair<number>;
+  canvasCoordinates: Array<Pair<number>>;
+  scales: number[];
+}
+
 export interface WebGLColorStop {
   color: REGL.Vec4;
   offset: number;
@@ -37,10 +242,16 @@ export interface WebGLColorStop {
 
 export interface TileElement extends HTMLCanvasElement {
   pixelData?: Uint8Array;
+  // for an arithmetic layer, the pixel data of the two inputs combined into `pixelData`
+  inputsData?: Pair<Uint8Array>;
+  // controls the tile's in-flight request for pixel data, if any
+  abortController?: AbortController;
+  // set if the tile's data failed to load
+  error?: TileError;
 }
 
 export interface TileEvent {
-  tile: HTMLImageElement;
+  tile: TileElement;
   coords: TileCoordinates;
 }
 
@@ -51,10 +262,15 @@ export interface TileCache {
 
 // data structure used by the tile layer for preloading tiles
 export interface PreloadTileCache {
-  url: string;
+  source: DataSource;
   tiles: TileDatum[];
 }
 
+export interface PreloadRequest {
+  source: DataSource;
+  abortController: AbortController;
+}
+
 export interface GridLayerTile {
   active?: boolean;
   current: boolean;
@@ -67,15 +283,37 @@ export interface GridLayerTile {
 export interface TileDatum {
   coords: TileCoordinates;
   pixelData: Uint8Array;
+  // for an arithmetic layer, the pixel data of the two inputs combined into `pixelData`
+  inputsData?: Pair<Uint8Array>;
+  // set if the data failed to load, in which case `pixelData` holds no-data values
+  error?: TileError;
 }
 
 export namespace DrawCommon {
   export interface Props {
     canvasSize: Pair<number>;
     canvasCoordinates: REGL.Vec2;
+    // size at which the tile is drawn, relative to its size in pixels (1 by default)
+    scale?: number;
+    resampling: Resampling;
+    // no shading if undefined
+    hillshade?: HillshadeOptions;
+    // size of the tile's pixels on the ground, in meters
+    pixelSize: number;
+    contours: Contour[];
+    // the contours' colors, parsed as RGBA floats
+    contourColors: REGL.Vec4[];
   }
   export interface Uniforms {
-    nodataValue: number;
+    // ...'nodataValues[i]' for each index below NODATA_MAX_LENGTH
+    nodataValuesLength: number;
+    nodataNaN: boolean;
+    resampling: number;
+    // ...hillshade struct properties
+    pixelSize: number;
+    // ...'contourValues[i]', 'contourColors[i]' and 'contourWidths[i]' for each index below CONTOURS_MAX_LENGTH
+    contoursLength: number;
+    scale: number;
     littleEndian: boolean;
     transformMatrix: REGL.Mat4;
   }
@@ -86,16 +324,19 @@ export namespace DrawCommon {
 
 export namespace DrawTile {
   export interface Props extends DrawCommon.Props {
-    colorScale: WebGLColorStop[];
-    sentinelValues: WebGLColorStop[];
+    colorScale: ColorScaleTexture;
     texture: REGL.Texture2D;
     textureBounds: TextureBounds;
+    // bounds of the tiles to the left, right, top and bottom, if they're in the texture
+    neighborBounds: Array<TextureBounds | undefined>;
   }
   export interface Uniforms extends DrawCommon.Uniforms {
-    // ...colorScale struct array properties
-    colorScaleLength: number;
-    sentinelValuesLength: number;
+    colorScaleTexture: REGL.Texture2D;
+    // ...colorScale struct properties
     texture: REGL.Texture2D;
+    tileBounds: REGL.Vec4;
+    // ...'neighborBounds[i]' for each of the 4 neighboring tiles
+    textureSize: number;
   }
   export interface Attributes extends DrawCommon.Attributes {
     texCoord: REGL.Vec2[];
@@ -104,20 +345,25 @@ export namespace DrawTile {
 
 export namespace DrawTileInterpolateValue {
   export interface Props extends DrawCommon.Props {
-    colorScale: WebGLColorStop[];
-    sentinelValues: WebGLColorStop[];
+    colorScale: ColorScaleTexture;
     textureA: REGL.Texture2D;
     textureB: REGL.Texture2D;
     textureBoundsA: TextureBounds;
     textureBoundsB: TextureBounds;
+    // bounds of the tiles to the left, right, top and bottom, if they're in textures A and B
+    neighborBoundsA: Array<TextureBounds | undefined>;
+    neighborBoundsB: Array<TextureBounds | undefined>;
     interpolationFraction: number;
   }
   export interface Uniforms extends DrawCommon.Uniforms {
-    // ...colorScale struct array properties
-    colorScaleLength: number;
-    sentinelValuesLength: number;
+    colorScaleTexture: REGL.Texture2D;
+    // ...colorScale struct properties
     textureA: REGL.Texture2D;
     textureB: REGL.Texture2D;
+    tileBoundsA: REGL.Vec4;
+    tileBoundsB: REGL.Vec4;
+    // ...'neighborBoundsA[i]' and 'neighborBoundsB[i]' for each of the 4 neighboring tiles
+    textureSize: number;
     interpolationFraction: number;
   }
   export interface Attributes extends DrawCommon.Attributes {
@@ -128,24 +374,27 @@ export namespace DrawTileInterpolateValue {
 
 export namespace DrawTileInterpolateColor {
   export interface Props extends DrawCommon.Props {
-    colorScaleA: WebGLColorStop[];
-    colorScaleB: WebGLColorStop[];
-    sentinelValuesA: WebGLColorStop[];
-    sentinelValuesB: WebGLColorStop[];
+    colorScaleA: ColorScaleTexture;
+    colorScaleB: ColorScaleTexture;
     textureA: REGL.Texture2D;
     textureB: REGL.Texture2D;
     textureBoundsA: TextureBounds;
     textureBoundsB: TextureBounds;
+    // bounds of the tiles to the left, right, top and bottom, if they're in textures A and B
+    neighborBoundsA: Array<TextureBounds | undefined>;
+    neighborBoundsB: Array<TextureBounds | undefined>;
     interpolationFraction: number;
   }
   export interface Uniforms extends DrawCommon.Uniforms {
-    // colorScale properties
-    colorScaleLengthA: number;
-    colorScaleLengthB: number;
-    sentinelValuesLengthA: number;
-    sentinelValuesLengthB: number;
+    colorScaleTextureA: REGL.Texture2D;
+    colorScaleTextureB: REGL.Texture2D;
+    // ...colorScaleA and colorScaleB struct properties
     textureA: REGL.Texture2D;
     textureB: REGL.Texture2D;
+    tileBoundsA: REGL.Vec4;
+    tileBoundsB: REGL.Vec4;
+    // ...'neighborBoundsA[i]' and 'neighborBoundsB[i]' for each of the 4 neighboring tiles
+    textureSize: number;
     interpolationFraction: number;
   }
   export interface Attributes extends DrawCommon.Attributes {
@@ -1,17 +1,37 @@
 import { memoize } from 'lodash-es';
 import REGL from 'regl';
-import { decode } from 'upng-js';
 
+import {
+  EARTH_RADIUS,
+  FLOAT32_MAX,
+  NODATA_RELATIVE_TOLERANCE,
+  SENTINEL_RELATIVE_TOLERANCE,
+} from './constants';
+import namedColors from './named-colors';
 import {
   Color,
-  Dictionary,
+  ColorScaleSettings,
+  FetchTile,
+  Interpolation,
+  NodataValue,
+  NodataValues,
+  Operation,
+  Pair,
+  Resampling,
+  RetryOptions,
+  ScaleType,
+  SentinelValue,
   TextureBounds,
   TileCoordinates,
+  TileError,
+  TileSource,
+  ValueFilter,
+  ValueRange,
   WebGLColorStop,
 } from './types';
 
 /**
- * Converts a color scale (or array of SentinelValues) to a format usable by WebGL.
+ * Converts a color scale to a format usable by WebGL.
  */
 export function convertColorScale(colorScale: Color[]): WebGLColorStop[] {
   return colorScale.map(({ color, offset }) => ({
@@ -20,54 +40,109 @@ export function convertColorScale(colorScale: Color[]): WebGLColorStop[] {
   }));
 }
 
-const RGB_REGEX = /^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/;
+const HEX_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTIONAL_REGEX = /^(rgba?|hsla?)\(([^)]*)\)$/i;
+const NUMBER_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const PERCENTAGE_REGEX = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?%$/i;
 
 /**
- * Parses a color string of the form 'rgb({rVal}, {gVal}, {bVal})' and converts the resulting values
- * to a Vec4 consumable by WebGL. Each color value is normalized to the range 0.0 to 1.0.
+ * Parses a CSS color expression and converts it to a Vec4 consumable by WebGL. Each channel,
+ * including alpha, is normalized to the range 0.0 to 1.0.
+ *
+ * Supports every form in CSS Color Module Level 3: named colors, 'transparent', '#rgb', '#rrggbb',
+ * 'rgb()', 'rgba()', 'hsl()' and 'hsla()' (with comma-separated arguments). The hexadecimal forms
+ * with alpha from Level 4, '#rgba' and '#rrggbbaa', are also supported.
  */
-export function colorStringToWebGLFloats(rgb: string): REGL.Vec4 {
-  if (rgb === 'transparent') {
+export function colorStringToWebGLFloats(color: string): REGL.Vec4 {
+  const expression = color.trim().toLowerCase();
+  if (expression === 'transparent') {
     return [1, 1, 1, 0];
   }
-  const match = rgb.match(RGB_REGEX);
-  if (match === null) {
-    throw new Error(`'${rgb}' is not a valid RGB color expression.`);
-  }
-  const [, r, g, b] = match;
-  return [+r / 255, +g / 255, +b / 255, 1];
-}
-
-/**
- * Create an object representing the elements and properties of a WebGL struct array to be passed
- * to Regl. Each property is a "dynamic prop" in Regl parlance. That is, it's a function that is
- * evaluated when the drawing function is called. When each dynamic prop (function) is evaluated,
- * it's passed as second argument a `props` object (similar to `props` in a React component).
- */
-export function bindStructArray<
-  Struct extends Dictionary<any>,
-  Props extends Dictionary<any[]> = {}
->(
-  structPropertyNames: Array<keyof Struct>,
-  defaultValue: Struct,
-  maxArrayLength: number,
-  glslIdentifier: string,
-  propName: keyof Props = (glslIdentifier as keyof Props),
-) {
-  const output = {} as Dictionary<any>;
-  for (let i = 0; i < maxArrayLength; ++i) {
-    for (const key of structPropertyNames) {
-      output[`${glslIdentifier}[${i}].${key}`] = (_: any, props: Props) => {
-        const inputArray = props[propName];
-        return (
-          i < inputArray.length
-          ? inputArray[i][key]
-          : defaultValue[key]
-        );
-      };
+  if (namedColors.hasOwnProperty(expression)) {
+    return parseHexColor(namedColors[expression]);
+  }
+  if (HEX_REGEX.test(expression)) {
+    return parseHexColor(expression);
+  }
+  const match = expression.match(FUNCTIONAL_REGEX);
+  const args = match ? match[2].split(',').map(arg => arg.trim()) : [];
+  if (match === null || (args.length !== 3 && args.length !== 4)) {
+    throw new Error(`'${color}' is not a valid CSS color expression.`);
+  }
+  const alphaArg = args[3];
+  const alpha = alphaArg === undefined ? 1 : parseColorComponent(alphaArg, 1, color);
+  if (match[1].charAt(0) === 'r') {
+    const [r, g, b] = args.slice(0, 3).map(arg => parseColorComponent(arg, 255, color) / 255);
+    return [r, g, b, alpha];
+  } else {
+    const [hueArg, saturationArg, lightnessArg] = args;
+    if (!PERCENTAGE_REGEX.test(saturationArg) || !PERCENTAGE_REGEX.test(lightnessArg)) {
+      throw new Error(`'${color}' is not a valid CSS color expression.`);
     }
+    const [r, g, b] = hslToRGB(
+      parseNumber(hueArg.replace(/deg$/, ''), color),
+      parseColorComponent(saturationArg, 1, color),
+      parseColorComponent(lightnessArg, 1, color),
+    );
+    return [r, g, b, alpha];
+  }
+}
+
+/**
+ * Parses a hexadecimal color of the form '#rgb', '#rgba', '#rrggbb' or '#rrggbbaa'.
+ */
+function parseHexColor(hex: string): REGL.Vec4 {
+  const digits = hex.slice(1);
+  const short = digits.length <= 4;
+  const channels = (short ? digits.match(/./g) : digits.match(/../g)) as string[];
+  const [r, g, b, a = 255] = channels.map(channel => parseInt(short ? channel + channel : channel, 16));
+  return [r / 255, g / 255, b / 255, a / 255];
+}
+
+/**
+ * Parses a number or percentage and normalizes it to the range 0.0 to `max`.
+ * A percentage is relative to `max`.
+ */
+function parseColorComponent(component: string, max: number, color: string): number {
+  const value = (
+    PERCENTAGE_REGEX.test(component)
+    ? parseNumber(component.slice(0, -1), color) / 100 * max
+    : parseNumber(component, color)
+  );
+  return Math.min(Math.max(value, 0), max);
+}
+
+function parseNumber(str: string, color: string): number {
+  if (!NUMBER_REGEX.test(str)) {
+    throw new Error(`'${color}' is not a valid CSS color expression.`);
   }
-  return output;
+  return parseFloat(str);
+}
+
+/**
+ * Converts a color from HSL to RGB, following the algorithm in CSS Color Module Level 3.
+ * The hue is in degrees; saturation, lightness and the output channels are in the range 0.0 to 1.0.
+ */
+function hslToRGB(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const h = (((hue % 360) + 360) % 360) / 360;
+  const m2 = (
+    lightness <= 0.5
+    ? lightness * (saturation + 1)
+    : lightness + saturation - lightness * saturation
+  );
+  const m1 = lightness * 2 - m2;
+  const hueToRGB = (t: number) => {
+    const wrapped = t < 0 ? t + 1 : (t > 1 ? t - 1 : t);
+    if (wrapped * 6 < 1) {
+      return m1 + (m2 - m1) * wrapped * 6;
+    } else if (wrapped * 2 < 1) {
+      return m2;
+    } else if (wrapped * 3 < 2) {
+      return m1 + (m2 - m1) * (2 / 3 - wrapped) * 6;
+    }
+    return m1;
+  };
+  return [hueToRGB(h + 1 / 3), hueToRGB(h), hueToRGB(h - 1 / 3)];
 }
 
 export function machineIsLittleEndian() {
@@ -96,19 +171,160 @@ export function range(...args: number[]) {
   }
 }
 
-export async function fetchPNGData(url: string, nodataValue: number, tileDimension: number): Promise<Uint8Array> {
+/**
+ * The default implementation of the `fetchTile` option: a plain GET request with XMLHttpRequest.
+ */
+export function fetchArrayBuffer(url: string, _coords: TileCoordinates, signal: AbortSignal): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error(`Request for ${url} was aborted.`));
+      return;
+    }
     const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
     xhr.open("GET", url, true);
     xhr.responseType = "arraybuffer";
     xhr.addEventListener('load', () => {
-      resolve(xhr.response);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response);
+      } else {
+        const error = new Error(`Request for ${url} failed with status ${xhr.status}.`);
+        reject(Object.assign(error, { status: xhr.status }));
+      }
     });
-    xhr.addEventListener('error', reject);
+    xhr.addEventListener('error', () => reject(new Error(`Request for ${url} failed.`)));
+    xhr.addEventListener('abort', () => reject(new Error(`Request for ${url} was aborted.`)));
+    // Stop listening for the signal once the request is over, however it ends.
+    xhr.addEventListener('loadend', () => signal.removeEventListener('abort', onAbort));
+    signal.addEventListener('abort', onAbort);
     xhr.send(null);
-  }).then((data: ArrayBuffer) => {
-    return new Uint8Array(decode(data).data);
-  }).catch(() => createNoDataTile(nodataValue, tileDimension));
+  });
+}
+
+/**
+ * Whether a failed request is worth retrying: errors without an HTTP status (such as network
+ * failures) are, as are responses with status 408 (Request Timeout), 429 (Too Many Requests) or 5xx.
+ */
+export function isTransientError(error: any): boolean {
+  const status: number | undefined = error ? error.status : undefined;
+  return status === undefined || status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Resolve after the given number of milliseconds, or reject as soon as `signal` is aborted.
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Waiting to retry was aborted.'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error('Waiting to retry was aborted.'));
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Fetch a tile image, retrying failed requests according to `retryOptions` with exponential backoff.
+ * Aborted requests are never retried.
+ */
+export async function fetchWithRetry(
+  fetchTile: FetchTile,
+  url: string,
+  coords: TileCoordinates,
+  signal: AbortSignal,
+  {
+    retries = 2,
+    delay = 500,
+    backoff = 2,
+    shouldRetry = isTransientError,
+  }: RetryOptions,
+): Promise<ArrayBuffer> {
+  for (let attempt = 1; ; ++attempt) {
+    // Don't start a request whose data are no longer wanted.
+    if (signal.aborted) {
+      throw new Error(`Request for ${url} was aborted.`);
+    }
+    try {
+      return await fetchTile(url, coords, signal);
+    } catch (error) {
+      if (signal.aborted || attempt > retries || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+    }
+    await wait(delay * Math.pow(backoff, attempt - 1), signal);
+  }
+}
+
+/**
+ * Fetch a tile image and decode it into one 32-bit float per pixel, returned as the bytes of those
+ * floats in the machine's byte order. Decoding may be asynchronous (e.g. in a worker). If fetching
+ * (after any retries) or decoding fails, the promise is rejected with a `TileError` describing the
+ * failure.
+ */
+export async function fetchAndDecodeTile(
+  fetchTile: FetchTile,
+  url: string,
+  coords: TileCoordinates,
+  signal: AbortSignal,
+  retryOptions: RetryOptions,
+  tileDimension: number,
+  decode: (data: ArrayBuffer) => Float32Array | Promise<Float32Array>,
+): Promise<Uint8Array> {
+  return fetchWithRetry(fetchTile, url, coords, signal, retryOptions)
+    .then(decode)
+    .then((floats) => floatsToPixelData(floats, tileDimension))
+    .catch((cause) => {
+      throw createTileError(coords, url, cause);
+    });
+}
+
+/**
+ * Get a tile's pixel values from a tile source, returned as the bytes of those floats in the
+ * machine's byte order. If the source fails, the promise is rejected with a `TileError`.
+ */
+export async function getSourceTile(
+  source: TileSource,
+  coords: TileCoordinates,
+  signal: AbortSignal,
+  tileDimension: number,
+): Promise<Uint8Array> {
+  return Promise.resolve()
+    .then(() => typeof source === 'function' ? source(coords, signal) : source.getTile(coords, signal))
+    .then((floats) => floatsToPixelData(floats, tileDimension))
+    .catch((cause) => {
+      throw createTileError(coords, undefined, cause);
+    });
+}
+
+/**
+ * Check that a tile has one float per pixel, and view those floats as bytes.
+ */
+function floatsToPixelData(floats: Float32Array, tileDimension: number): Uint8Array {
+  if (!(floats instanceof Float32Array)) {
+    throw new Error('Tile data must be a Float32Array.');
+  }
+  if (floats.length !== tileDimension * tileDimension) {
+    throw new Error(`Tile has ${floats.length} pixels; expected ${tileDimension * tileDimension}.`);
+  }
+  return new Uint8Array(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+function createTileError(coords: TileCoordinates, url: string | undefined, cause: any): TileError {
+  const { x, y, z } = coords;
+  const message = cause instanceof Error ? cause.message : String(cause);
+  const origin = url === undefined ? 'tile source' : url;
+  return Object.assign(
+    new Error(`Failed to load tile ${z}/${x}/${y} from ${origin}: ${message}`),
+    { coords, url, cause },
+  );
 }
 
 /**
@@ -152,6 +368,16 @@ export function getTexCoordVertices(textureBounds: TextureBounds): REGL.Vec2[] {
   ];
 }
 
+/**
+ * The size on the ground, in meters, of the pixels at the center of a Web Mercator tile. (Pixels
+ * cover less ground away from the equator.)
+ */
+export function groundPixelSize({ y, z }: TileCoordinates, tileSize: number): number {
+  const tilesAcross = Math.pow(2, z);
+  const latitude = Math.atan(Math.sinh(Math.PI * (1 - 2 * (y + 0.5) / tilesAcross)));
+  return 2 * Math.PI * EARTH_RADIUS * Math.cos(latitude) / (tilesAcross * tileSize);
+}
+
 /**
  * Produces a Promise that resolves when the desired `duration` has expired.
  */
@@ -190,14 +416,549 @@ export function sameTiles(a: TileCoordinates[], b: TileCoordinates[]): boolean {
   );
 }
 
-const createNoDataTile = memoize((nodataValue: number, tileDimension: number = 256): Uint8Array => {
-  // Create a float 32 array.
-  const float32Tile = new Float32Array(tileDimension * tileDimension);
-  // Fill the tile array with the no data value
-  float32Tile.fill(nodataValue);
-  // return the no data tile.
-  return new Uint8Array(float32Tile.buffer);
-});
+/**
+ * Determines whether two sets of color scale settings are the same. Color scales and sentinel values
+ * are compared by identity.
+ */
+export function sameColorScaleSettings(a: ColorScaleSettings, b: ColorScaleSettings): boolean {
+  return (
+    a.colorScale === b.colorScale
+    && a.sentinelValues === b.sentinelValues
+    && a.valueFilter === b.valueFilter
+    && a.colorScaleMode === b.colorScaleMode
+    && a.scaleType === b.scaleType
+    && a.scaleExponent === b.scaleExponent
+    && a.interpolation === b.interpolation
+  );
+}
+
+/**
+ * Determines whether two color scales are the same by value: their stops have the same colors and
+ * labels, and offsets that are the same at 32-bit precision (as they are drawn).
+ */
+export function sameColorScale(a: Color[], b: Color[]): boolean {
+  return a.length === b.length && a.every((stop, index) => (
+    stop.color === b[index].color
+    && stop.label === b[index].label
+    && Math.fround(stop.offset) === Math.fround(b[index].offset)
+  ));
+}
+
+/**
+ * Transform a value according to the scale type. This mirrors `shaders/util/scaleValue.glsl`.
+ */
+export function scaleValue(value: number, scaleType: ScaleType, exponent: number): number {
+  const sign = value < 0 ? -1 : 1;
+  switch (scaleType) {
+    case 'log':
+      return Math.log(value);
+    case 'symlog':
+      return sign * Math.log(1 + Math.abs(value));
+    case 'sqrt':
+      return sign * Math.sqrt(Math.abs(value));
+    case 'pow':
+      return sign * Math.pow(Math.abs(value), exponent);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Inverse of `scaleValue`.
+ */
+export function unscaleValue(scaled: number, scaleType: ScaleType, exponent: number): number {
+  const sign = scaled < 0 ? -1 : 1;
+  switch (scaleType) {
+    case 'log':
+      return Math.exp(scaled);
+    case 'symlog':
+      return sign * (Math.exp(Math.abs(scaled)) - 1);
+    case 'sqrt':
+      return sign * scaled * scaled;
+    case 'pow':
+      return sign * Math.pow(Math.abs(scaled), 1 / exponent);
+    default:
+      return scaled;
+  }
+}
+
+/**
+ * Find the index of the class (color stop) into which a value falls, for a classed color scale.
+ * Returns `undefined` for a continuous color scale. This mirrors `shaders/util/classifyValue.glsl`,
+ * comparing against the offsets rounded to 32-bit precision, as they are when uploaded to the GPU.
+ */
+export function classifyValue(
+  value: number,
+  {
+    colorScale,
+    colorScaleMode,
+    scaleType,
+    scaleExponent,
+  }: ColorScaleSettings,
+): number | undefined {
+  if (colorScaleMode === 'continuous' || colorScale.length === 0) {
+    return undefined;
+  }
+  const lastIndex = colorScale.length - 1;
+  const offsets = colorScale.map(({ offset }) => Math.fround(offset));
+  if (colorScaleMode === 'quantize') {
+    const first = offsets[0];
+    const last = offsets[lastIndex];
+    if (value <= first) {
+      return 0;
+    }
+    const scaledFirst = scaleValue(first, scaleType, scaleExponent);
+    const scaledLast = scaleValue(last, scaleType, scaleExponent);
+    const fraction = (scaleValue(value, scaleType, scaleExponent) - scaledFirst) / (scaledLast - scaledFirst);
+    return Math.min(Math.max(Math.floor(fraction * colorScale.length), 0), lastIndex);
+  }
+  if (colorScaleMode === 'threshold') {
+    // the first stop whose offset is at or above the value
+    const index = offsets.findIndex((offset) => value <= offset);
+    return index < 0 ? lastIndex : index;
+  }
+  // 'stepped': the last stop whose offset is at or below the value
+  let index = 0;
+  while (index < lastIndex && offsets[index + 1] <= value) {
+    ++index;
+  }
+  return index;
+}
+
+type Vec3 = [number, number, number];
+
+// D65 reference white
+const WHITE_POINT: Vec3 = [0.95047, 1.0, 1.08883];
+const LAB_DELTA = 6 / 29;
+
+function dot([a0, a1, a2]: Vec3, [b0, b1, b2]: Vec3): number {
+  return a0 * b0 + a1 * b1 + a2 * b2;
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(Math.max(channel, 0), 1 / 2.4) - 0.055;
+}
+
+function labF(t: number): number {
+  return t <= LAB_DELTA * LAB_DELTA * LAB_DELTA
+    ? t / (3 * LAB_DELTA * LAB_DELTA) + 4 / 29
+    : Math.pow(Math.max(t, 0), 1 / 3);
+}
+
+function labFInverse(t: number): number {
+  return t <= LAB_DELTA ? 3 * LAB_DELTA * LAB_DELTA * (t - 4 / 29) : t * t * t;
+}
+
+function rgbToLab(rgb: Vec3): Vec3 {
+  const linear = rgb.map(srgbToLinear) as Vec3;
+  const [fx, fy, fz] = [
+    dot([0.4124564, 0.3575761, 0.1804375], linear),
+    dot([0.2126729, 0.7151522, 0.0721750], linear),
+    dot([0.0193339, 0.1191920, 0.9503041], linear),
+  ].map((channel, index) => labF(channel / WHITE_POINT[index]));
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToRGB([l, a, b]: Vec3): Vec3 {
+  const fy = (l + 16) / 116;
+  const xyz = [fy + a / 500, fy, fy - b / 200].map((f, index) => labFInverse(f) * WHITE_POINT[index]) as Vec3;
+  return [
+    dot([3.2404542, -1.5371385, -0.4985314], xyz),
+    dot([-0.9692660, 1.8760108, 0.0415560], xyz),
+    dot([0.0556434, -0.2040259, 1.0572252], xyz),
+  ].map(linearToSRGB) as Vec3;
+}
+
+function rgbToOKLab(rgb: Vec3): Vec3 {
+  const linear = rgb.map(srgbToLinear) as Vec3;
+  const lmsRoot = [
+    dot([0.4122214708, 0.5363325363, 0.0514459929], linear),
+    dot([0.2119034982, 0.6806995451, 0.1073969566], linear),
+    dot([0.0883024619, 0.2817188376, 0.6299787005], linear),
+  ].map(channel => Math.pow(Math.max(channel, 0), 1 / 3)) as Vec3;
+  return [
+    dot([0.2104542553, 0.7936177850, -0.0040720468], lmsRoot),
+    dot([1.9779984951, -2.4285922050, 0.4505937099], lmsRoot),
+    dot([0.0259040371, 0.7827717662, -0.8086757660], lmsRoot),
+  ];
+}
+
+function okLabToRGB(lab: Vec3): Vec3 {
+  const lms = [
+    dot([1.0, 0.3963377774, 0.2158037573], lab),
+    dot([1.0, -0.1055613458, -0.0638541728], lab),
+    dot([1.0, -0.0894841775, -1.2914855480], lab),
+  ].map(channel => channel * channel * channel) as Vec3;
+  return [
+    dot([4.0767416621, -3.3077115913, 0.2309699292], lms),
+    dot([-1.2684380046, 2.6097574011, -0.3413193965], lms),
+    dot([-0.0041960863, -0.7034186147, 1.7076147010], lms),
+  ].map(linearToSRGB) as Vec3;
+}
+
+function mixHCL([lA, aA, bA]: Vec3, [lB, aB, bB]: Vec3, t: number): Vec3 {
+  const chromaA = Math.sqrt(aA * aA + bA * bA);
+  const chromaB = Math.sqrt(aB * aB + bB * bB);
+  let hueA = Math.atan2(bA, aA);
+  let hueB = Math.atan2(bB, aB);
+  if (chromaA < 0.0001) {
+    hueA = hueB;
+  } else if (chromaB < 0.0001) {
+    hueB = hueA;
+  }
+  let hueDelta = hueB - hueA;
+  if (hueDelta > Math.PI) {
+    hueDelta -= 2 * Math.PI;
+  } else if (hueDelta < -Math.PI) {
+    hueDelta += 2 * Math.PI;
+  }
+  const hue = hueA + hueDelta * t;
+  const chroma = mix(chromaA, chromaB, t);
+  return [mix(lA, lB, t), chroma * Math.cos(hue), chroma * Math.sin(hue)];
+}
+
+/**
+ * Interpolate between two colors with straight alpha in the given color space. This mirrors
+ * `shaders/util/interpolateColors.glsl`, except that the result also has straight alpha.
+ */
+export function interpolateColors(
+  colorA: REGL.Vec4,
+  colorB: REGL.Vec4,
+  t: number,
+  interpolation: Interpolation,
+): REGL.Vec4 {
+  const alpha = mix(colorA[3], colorB[3], t);
+  if (interpolation === 'rgb') {
+    // Interpolate premultiplied colors.
+    const rgb = [0, 1, 2].map(index => mix(colorA[index] * colorA[3], colorB[index] * colorB[3], t));
+    return alpha > 0 ? [rgb[0] / alpha, rgb[1] / alpha, rgb[2] / alpha, alpha] : [0, 0, 0, 0];
+  }
+  const rgbA = (colorA[3] > 0 ? colorA : colorB).slice(0, 3) as Vec3;
+  const rgbB = (colorB[3] > 0 ? colorB : colorA).slice(0, 3) as Vec3;
+  const rgb = (
+    interpolation === 'oklab'
+    ? okLabToRGB(rgbToOKLab(rgbA).map((channel, index) => mix(channel, rgbToOKLab(rgbB)[index], t)) as Vec3)
+    : interpolation === 'hcl'
+    ? labToRGB(mixHCL(rgbToLab(rgbA), rgbToLab(rgbB), t))
+    : labToRGB(rgbToLab(rgbA).map((channel, index) => mix(channel, rgbToLab(rgbB)[index], t)) as Vec3)
+  ).map(channel => Math.min(Math.max(channel, 0), 1));
+  return [rgb[0], rgb[1], rgb[2], alpha];
+}
+
+/**
+ * Compute the color (with straight alpha) of a value under a continuous color scale, which must have
+ * at least one stop. This mirrors the continuous branch of `shaders/util/computeColor.glsl`, with the
+ * offsets rounded to 32-bit precision, as they are when uploaded to the GPU.
+ */
+export function computeContinuousColor(
+  value: number,
+  {
+    colorScale,
+    scaleType,
+    scaleExponent,
+    interpolation,
+  }: ColorScaleSettings,
+): REGL.Vec4 {
+  const offsets = colorScale.map(({ offset }) => Math.fround(offset));
+  // the last stop whose offset is at or below the value
+  let index = -1;
+  while (index < colorScale.length - 1 && offsets[index + 1] <= value) {
+    ++index;
+  }
+  if (index < 0 || index === colorScale.length - 1) {
+    // Clamp values outside the color scale's range to the nearest stop.
+    return colorStringToWebGLFloats(colorScale[Math.max(index, 0)].color);
+  }
+  const lower = colorScale[index];
+  const upper = colorScale[index + 1];
+  const scaledLower = scaleValue(offsets[index], scaleType, scaleExponent);
+  const scaledUpper = scaleValue(offsets[index + 1], scaleType, scaleExponent);
+  const percent = (scaleValue(value, scaleType, scaleExponent) - scaledLower) / (scaledUpper - scaledLower);
+  return interpolateColors(
+    colorStringToWebGLFloats(lower.color),
+    colorStringToWebGLFloats(upper.color),
+    percent,
+    interpolation,
+  );
+}
+
+/**
+ * The (inclusive) range of values matched by a sentinel value. The bounds are rounded to 32-bit
+ * precision, as they are when uploaded to the GPU.
+ */
+export function sentinelValueRange({ offset, tolerance, min, max }: SentinelValue): Pair<number> {
+  if (min !== undefined || max !== undefined) {
+    return [
+      Math.fround(min === undefined ? -FLOAT32_MAX : min),
+      Math.fround(max === undefined ? FLOAT32_MAX : max),
+    ];
+  }
+  const center = offset as number;
+  const margin = tolerance === undefined ? Math.abs(center) * SENTINEL_RELATIVE_TOLERANCE : tolerance;
+  return [Math.fround(center - margin), Math.fround(center + margin)];
+}
+
+/**
+ * Find the sentinel value matching a pixel value, if any. This mirrors
+ * `shaders/util/findSentinelValue.glsl`.
+ */
+export function findSentinelValue(value: number, sentinelValues: SentinelValue[]): SentinelValue | undefined {
+  return sentinelValues.find((sentinelValue) => {
+    const [lower, upper] = sentinelValueRange(sentinelValue);
+    return value >= lower && value <= upper;
+  });
+}
+
+/**
+ * A no-data value may be given as a single number, a list of numbers or 'NaN'. Separate NaN from
+ * the other values, as it's matched differently.
+ */
+export function nodataValues(nodataValue: NodataValue): NodataValues {
+  const list = nodataValue === 'NaN' ? [NaN] : Array.isArray(nodataValue) ? nodataValue : [nodataValue];
+  return {
+    values: list.filter((value) => !isNaN(value)),
+    nan: list.some(isNaN),
+  };
+}
+
+/**
+ * Whether a pixel value has no data: it's NaN and NaN is a no-data value, or it's within a small
+ * tolerance of one of the numeric no-data values. This mirrors `shaders/util/isNoData.glsl`.
+ */
+export function isNoData(value: number, { values, nan }: NodataValues): boolean {
+  if (isNaN(value)) {
+    return nan;
+  }
+  return values.some((nodataValue) => (
+    Math.abs(value - nodataValue) <= Math.max(Math.abs(value), Math.abs(nodataValue)) * NODATA_RELATIVE_TOLERANCE
+  ));
+}
+
+/**
+ * Determines whether two sets of no-data values are the same, comparing the values themselves (so a
+ * new array with the same numbers is the same).
+ */
+export function sameNodataValues(a: NodataValues, b: NodataValues): boolean {
+  return (
+    a.nan === b.nan
+    && a.values.length === b.values.length
+    && a.values.every((value, index) => value === b.values[index])
+  );
+}
+
+// the arithmetic of each operation combining an arithmetic layer's two inputs
+const operations: { [operation in Operation]: (a: number, b: number) => number } = {
+  difference: (a, b) => a - b,
+  ratio: (a, b) => a / b,
+  change: (a, b) => (a - b) / b,
+};
+
+/**
+ * Combine the pixel data of an arithmetic layer's two inputs, pixel by pixel, with the given
+ * operation. Pixels where either input has no data (per the inputs' no-data values), or where the
+ * result isn't a finite number (as when dividing by zero), are NaN, as no finite value can be told
+ * apart from a valid result.
+ */
+export function combineTiles([a, b]: Pair<Uint8Array>, operation: Operation, nodata: NodataValues): Uint8Array {
+  const [floatsA, floatsB] = [a, b].map((pixelData) => new Float32Array(
+    pixelData.buffer,
+    pixelData.byteOffset,
+    pixelData.byteLength / Float32Array.BYTES_PER_ELEMENT,
+  ));
+  const combine = operations[operation];
+  const combined = new Float32Array(floatsA.length);
+  floatsA.forEach((valueA, index) => {
+    const valueB = floatsB[index];
+    const value = isNoData(valueA, nodata) || isNoData(valueB, nodata) ? NaN : combine(valueA, valueB);
+    combined[index] = isFinite(value) ? value : NaN;
+  });
+  return new Uint8Array(combined.buffer);
+}
+
+/**
+ * Sample a tile's value at the given position (in pixels from its top left corner, not necessarily
+ * whole numbers). This mirrors `shaders/util/sampleValue.glsl`: with bilinear or bicubic resampling,
+ * the value is interpolated between the 2x2 or 4x4 pixels around the position. `getPixelValue`
+ * reads pixels beyond the tile's edges from the tiles next to it, returning `undefined` if there's
+ * no such tile, in which case they're replaced by those on its edges. Otherwise, or if any of those
+ * pixels' values can't be interpolated (per `isInterpolable`), the value is the nearest pixel's.
+ */
+export function sampleTileValue(
+  getPixelValue: (column: number, row: number) => number | undefined,
+  tileSize: number,
+  [x, y]: Pair<number>,
+  resampling: Resampling,
+  isInterpolable: (value: number) => boolean,
+): number {
+  const clampIndex = (index: number) => Math.min(Math.max(index, 0), tileSize - 1);
+  const readPixel = (column: number, row: number) => {
+    const value = getPixelValue(column, row);
+    return value === undefined ? getPixelValue(clampIndex(column), clampIndex(row)) as number : value;
+  };
+  const nearest = readPixel(clampIndex(Math.floor(x)), clampIndex(Math.floor(y)));
+  if (resampling === 'nearest') {
+    return nearest;
+  }
+  // Find the position relative to the centers of the pixels.
+  const baseX = Math.floor(x - 0.5);
+  const baseY = Math.floor(y - 0.5);
+  const weightsX = resamplingWeights(x - 0.5 - baseX, resampling);
+  const weightsY = resamplingWeights(y - 0.5 - baseY, resampling);
+  let sum = 0;
+  for (let j = 0; j < 4; ++j) {
+    for (let i = 0; i < 4; ++i) {
+      const weight = weightsX[i] * weightsY[j];
+      if (weight === 0) {
+        continue;
+      }
+      const value = readPixel(baseX + i - 1, baseY + j - 1);
+      if (!isInterpolable(value)) {
+        return nearest;
+      }
+      sum += weight * value;
+    }
+  }
+  return sum;
+}
+
+/**
+ * Weights of the 4 pixels around a position, which is a fraction `t` of the way from the second to
+ * the third: a Catmull-Rom spline for bicubic resampling, or the middle two for bilinear.
+ */
+function resamplingWeights(t: number, resampling: Resampling): number[] {
+  if (resampling === 'bicubic') {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return [
+      -0.5 * t3 + t2 - 0.5 * t,
+      1.5 * t3 - 2.5 * t2 + 1,
+      -1.5 * t3 + 2 * t2 + 0.5 * t,
+      0.5 * t3 - 0.5 * t2,
+    ];
+  }
+  return [0, 1 - t, t, 0];
+}
+
+/**
+ * A value filter may be given as a single range or as a list of ranges.
+ */
+export function valueFilterRanges(valueFilter: ValueFilter): ValueRange[] {
+  return Array.isArray(valueFilter) ? valueFilter : [valueFilter];
+}
+
+/**
+ * Whether a (non-sentinel) pixel value is hidden by a value filter: that is, the filter has at least
+ * one range and the value falls within none of them. This mirrors `shaders/util/isFilteredOut.glsl`;
+ * as there, the bounds are compared at 32-bit precision.
+ */
+export function isFilteredOut(value: number, valueFilter: ValueFilter): boolean {
+  const ranges = valueFilterRanges(valueFilter);
+  return ranges.length > 0 && !ranges.some(({ min, max, inclusive = true }) => (
+    (min === undefined || (inclusive ? value >= Math.fround(min) : value > Math.fround(min)))
+    && (max === undefined || (inclusive ? value <= Math.fround(max) : value < Math.fround(max)))
+  ));
+}
+
+/**
+ * Gather the values of the pixels in the given tiles to which a color scale applies: that is, all
+ * finite values other than no-data values and sentinel values (and, for a log scale, other than
+ * non-positive values). The values are returned in ascending order.
+ */
+export function collectPixelValues(
+  tilesData: Uint8Array[],
+  nodata: NodataValues,
+  sentinelValues: SentinelValue[],
+  scaleType: ScaleType,
+): Float32Array {
+  const sentinelRanges = sentinelValues.map(sentinelValueRange);
+  const tilesFloats = tilesData.map((pixelData) => new Float32Array(
+    pixelData.buffer,
+    pixelData.byteOffset,
+    pixelData.byteLength / Float32Array.BYTES_PER_ELEMENT,
+  ));
+  const pixelValues = new Float32Array(tilesFloats.reduce((total, floats) => total + floats.length, 0));
+  let count = 0;
+  for (const floats of tilesFloats) {
+    floats.forEach((value) => {
+      if (
+        isFinite(value)
+        && !isNoData(value, nodata)
+        && !sentinelRanges.some(([lower, upper]) => value >= lower && value <= upper)
+        && !(scaleType === 'log' && value <= 0)
+      ) {
+        pixelValues[count++] = value;
+      }
+    });
+  }
+  return pixelValues.subarray(0, count).sort();
+}
+
+/**
+ * Find the p-quantile (0 <= p <= 1) of a non-empty array of values sorted in ascending order,
+ * interpolating linearly between the two nearest values.
+ */
+export function quantileSorted(sortedValues: ArrayLike<number>, p: number): number {
+  const position = (sortedValues.length - 1) * Math.min(Math.max(p, 0), 1);
+  const index = Math.floor(position);
+  const lower = sortedValues[index];
+  return (
+    index + 1 < sortedValues.length
+    ? lower + (sortedValues[index + 1] - lower) * (position - index)
+    : lower
+  );
+}
+
+/**
+ * Move the color stops of a color scale so that the first and last span the given domain. The
+ * stops in between keep their relative positions, measured after transformation by the scale type.
+ */
+export function rescaleColorScale(
+  colorScale: Color[],
+  [min, max]: Pair<number>,
+  scaleType: ScaleType,
+  exponent: number,
+): Color[] {
+  const lastIndex = colorScale.length - 1;
+  const scaledFirst = scaleValue(colorScale[0].offset, scaleType, exponent);
+  const scaledLast = scaleValue(colorScale[lastIndex].offset, scaleType, exponent);
+  const scaledMin = scaleValue(min, scaleType, exponent);
+  const scaledMax = scaleValue(max, scaleType, exponent);
+  return colorScale.map((stop, index) => {
+    const fraction = (
+      scaledLast === scaledFirst
+      ? index / Math.max(lastIndex, 1)
+      : (scaleValue(stop.offset, scaleType, exponent) - scaledFirst) / (scaledLast - scaledFirst)
+    );
+    // Use the ends of the domain as given, rather than after a round trip through the scale type.
+    const offset = (
+      index === 0 ? min
+      : index === lastIndex ? max
+      : unscaleValue(scaledMin + (scaledMax - scaledMin) * fraction, scaleType, exponent)
+    );
+    return { ...stop, offset };
+  });
+}
+
+export const createNoDataTile: (nodata: NodataValues, tileDimension?: number) => Uint8Array = memoize(
+  (nodata: NodataValues, tileDimension: number = 256): Uint8Array => {
+    // Create a float 32 array.
+    const float32Tile = new Float32Array(tileDimension * tileDimension);
+    // Fill the tile array with the first no data value (or NaN, if it's the only one).
+    float32Tile.fill(nodata.values.length > 0 ? nodata.values[0] : NaN);
+    // return the no data tile.
+    return new Uint8Array(float32Tile.buffer);
+  },
+  // Memoize by the values, rather than by the identity of the object holding them.
+  ({ values, nan }: NodataValues, tileDimension: number = 256) => `${values.join(',')}|${nan}|${tileDimension}`,
+);
 
 /**
  * Force TypeScript to interpret value `val` as type `T`.
@@ -0,0 +1,70 @@
+/**
+ * Entry point of the Web Worker script (built as dist/worker.js) run by `WorkerPool`, which fetches
+ * and decodes tiles off the main thread. Results are transferred back to the main thread.
+ */
+import createDecoder from './decoders';
+import {
+  Dictionary,
+  WorkerJob,
+  WorkerRequest,
+  WorkerResponse,
+} from './types';
+import * as util from './util';
+
+// The DOM typings this project compiles against type `self` as a window, so declare the parts of
+// the worker's global scope used here.
+interface WorkerScope {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+  postMessage(message: WorkerResponse, transfer?: ArrayBuffer[]): void;
+}
+declare const self: WorkerScope;
+
+// controls for the jobs in progress, by ID
+const abortControllers: Dictionary<AbortController> = {};
+
+function runJob(job: WorkerJob, signal: AbortSignal): Promise<ArrayBuffer> {
+  const data: Promise<ArrayBuffer> = (
+    job.type === 'fetchAndDecode'
+    ? util.fetchWithRetry(util.fetchArrayBuffer, job.url, job.coords, signal, job.retry)
+    : Promise.resolve(job.data)
+  );
+  return data.then((bytes) => {
+    const floats = createDecoder(job.decoder)(bytes);
+    // Transfer exactly the bytes of the floats.
+    return (
+      floats.byteOffset === 0 && floats.byteLength === floats.buffer.byteLength
+      ? floats.buffer as ArrayBuffer
+      : floats.slice().buffer as ArrayBuffer
+    );
+  });
+}
+
+self.addEventListener('message', ({ data: request }: MessageEvent) => {
+  const { id } = request as WorkerRequest;
+  if (request.type === 'abort') {
+    if (abortControllers[id]) {
+      abortControllers[id].abort();
+    }
+    return;
+  }
+  const abortController = new AbortController();
+  abortControllers[id] = abortController;
+  runJob(request as WorkerJob, abortController.signal).then(
+    (data) => {
+      const response: WorkerResponse = { id, data };
+      self.postMessage(response, [data]);
+    },
+    (error) => {
+      const response: WorkerResponse = {
+        id,
+        error: {
+          message: error instanceof Error ? error.message : String(error),
+          status: error ? error.status : undefined,
+        },
+      };
+      self.postMessage(response);
+    },
+  ).then(() => {
+    delete abortControllers[id];
+  });
+});